@@ -1,32 +1,301 @@
 import React from 'react';
-import { Upload, X, Table as TableIcon, ChevronLeft, ChevronRight, Download } from 'lucide-react';
-import Papa from 'papaparse';
-import ExcelJS from 'exceljs';
+import {
+  Upload,
+  X,
+  Table as TableIcon,
+  ChevronRight,
+  ChevronDown,
+  Download,
+} from 'lucide-react';
 import * as XLSX from 'xlsx';
-import JSZip from 'jszip';
-import { DBService, FileData } from './services/db';
+import { DBService, DEFAULT_PROJECT_ID, FileData, Project } from './services/db';
+import { DataRow } from './types';
+import {
+  DEFAULT_DESCRIPTION_TEMPLATE,
+  DEFAULT_MERGE_PROFILE,
+  DE_SOURCE_ID,
+  MergeProfile,
+  PRODUCT_SOURCE_ID,
+  SourceRole,
+  getHeaders,
+  withProfileDefaults,
+} from './services/mapping';
+import { getSourceOrder } from './services/merge';
+import { DuplicateGroup, DuplicateResolutions } from './services/duplicates';
+import {
+  MergeReport,
+  ReportCategory,
+  REPORT_FILE_NAMES,
+  createEmptyReport,
+  getMergedSkus,
+  isRowCategory,
+} from './services/report';
+import { MatchDecisions, MatchPair, matchKey } from './services/matching';
+import MappingEditor from './components/MappingEditor';
+import MergeReportPanel from './components/MergeReportPanel';
+import MatchReview from './components/MatchReview';
+import DuplicatesPanel from './components/DuplicatesPanel';
+import SkuRulesEditor from './components/SkuRulesEditor';
+import DescriptionTemplateEditor from './components/DescriptionTemplateEditor';
+import MeasurementSettingsEditor from './components/MeasurementSettingsEditor';
+import CategoryMappingPanel from './components/CategoryMappingPanel';
+import { parseTaxonomy } from './services/taxonomy';
+import SourceFilesPanel from './components/SourceFilesPanel';
+import DiffView from './components/DiffView';
+import ValidationPanel from './components/ValidationPanel';
+import { ValidationIssue, issuesToRows } from './services/validation';
+import { ChangeType, buildDeltaRows } from './services/diff';
+import {
+  CsvImportOptions,
+  ExcelImportOptions,
+  ImportOptions,
+  getFileType,
+  isExcelFile,
+  needsSheetSelection,
+  readFileStart,
+  readWorkbook,
+  sameCsvOptions,
+  sniffCsv,
+} from './services/parse';
+import SheetPicker from './components/SheetPicker';
+import ProgressOverlay from './components/ProgressOverlay';
+import { SourceRef, Task, TaskResult } from './services/tasks';
+import { TaskCancelledError, runInWorker } from './services/worker';
+import CsvImportDialog from './components/CsvImportDialog';
+import ProjectBar from './components/ProjectBar';
+import { bundleFileName, exportProject, importProject } from './services/bundle';
+import {
+  DEFAULT_GRID_STATE,
+  ColumnFilter,
+  GridState,
+  countActiveFilters,
+  getVisibleColumns,
+  hasRowQuery,
+  moveColumn,
+  nextSort,
+  projectColumns,
+  queryRows,
+} from './services/grid';
+import GridToolbar from './components/GridToolbar';
+import DataGrid from './components/DataGrid';
+import OverridesPanel from './components/OverridesPanel';
+import { CellOverride, OverrideChange, overrideKey, rowSku } from './services/overrides';
+import TransformsPanel from './components/TransformsPanel';
+import { DataTransform } from './services/transforms';
+import ImageGallery from './components/ImageGallery';
+import { ImageChanges } from './services/images';
+import TranslationsPanel from './components/TranslationsPanel';
+import TranslationImportDialog from './components/TranslationImportDialog';
+import { TranslationImport, buildTranslationImport } from './services/translationImport';
+import {
+  LanguageTranslations,
+  TRANSLATION_LANGUAGES,
+  TranslationLanguage,
+  countCoverageIssues,
+  coverageToRows,
+  translatedTableId,
+} from './services/translations';
+import { ExportFormat, toCsvBlob, toXlsxBlob } from './services/export';
 
 const db = new DBService();
 
-type TabType = 'de' | 'product' | 'merged';
+type TabType = 'de' | 'product' | 'merged' | 'diff' | `source:${string}`;
+
+const MERGED_DATA_ID = 'mergedData';
+
+const BASELINE_ID = 'previousMergedData';
+
+// Identifies the uploads a merge reads; records from before uploads were stamped fall back to their size
+const sourcesVersion = (files: (FileData | null)[]) =>
+  files
+    .filter((file): file is FileData => file?.rowCount !== undefined)
+    .map(file => `${file.id}@${file.savedAt ?? `${file.size}/${file.rowCount}`}`)
+    .join('|');
+
+const CURRENT_PROJECT_SETTING = 'currentProject';
+
+const EXTRA_SOURCE_PREFIX = 'source-';
+
+// Searches and previews read every row of a table, so the ones that follow typing wait until it pauses
+const TYPING_DELAY = 300;
+
+interface TableOptions {
+  // Grid state key
+  id: string;
+  exportName: string;
+  showActionButtons?: boolean;
+  // Cells can be edited and are kept as overrides
+  editable?: boolean;
+}
+
+// The rows a grid over a stored table shows
+interface RowQuery {
+  // Set when they are not every row in file order
+  active: boolean;
+  // Their positions in the stored file; null until the worker has found them
+  positions: number[] | null;
+}
+
+// A table whose rows stay in IndexedDB
+interface StoredView {
+  file: FileData;
+  // Only the rows with these SKUs, e.g. one category of the merge report
+  skus?: string[];
+  query: RowQuery;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Reads the rows a grid shows a page at a time, by position when they are queried
+const readRows = (projectId: string, fileId: string, positions: number[] | null) =>
+  (offset: number, limit: number) => positions
+    ? db.getRowsAt(projectId, fileId, positions.slice(offset, offset + limit))
+    : db.getRows(projectId, fileId, offset, limit);
+
+// Runs a task in the worker without the progress overlay, for results that follow the data as it
+// changes. A new task or version replaces the result; a null task has none.
+const useBackgroundTask = <T extends Task,>(task: T | null, version: unknown = null, delay = 0) => {
+  const [result, setResult] = React.useState<{ task: T; version: unknown; value: TaskResult<T> | null } | null>(null);
+  // Cancelling a task in the overlay ends the worker and the background tasks with it, which then start again
+  const [attempt, setAttempt] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!task) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      runInWorker(task).promise
+        .then(value => {
+          if (!cancelled) setResult({ task, version, value });
+        })
+        .catch(error => {
+          if (cancelled) return;
+          if (error instanceof TaskCancelledError) {
+            setAttempt(prev => prev + 1);
+            return;
+          }
+          console.error(`Error running ${task.type} in the background:`, error);
+          setResult({ task, version, value: null });
+        });
+    }, delay);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [task, version, delay, attempt]);
+
+  const current = task && result && result.task === task && result.version === version ? result : null;
+  return { value: current ? current.value : null, pending: Boolean(task) && !current };
+};
+
+// Has the worker find the rows a grid shows, once it has a search, filters or a sort or is limited to
+// some SKUs. Until new positions arrive, the last ones found for the same rows stay on screen.
+const useRowQuery = (
+  projectId: string | null,
+  table: { fileId: string; skus?: string[] } | null,
+  { sort, filters, search }: GridState,
+  version: unknown
+): RowQuery => {
+  const fileId = table?.fileId;
+  const skus = table?.skus;
+  const task = React.useMemo(() => {
+    const query: GridState = { ...DEFAULT_GRID_STATE, sort, filters, search };
+    if (!projectId || !fileId || (!skus && !hasRowQuery(query))) return null;
+    return { type: 'query', table: { projectId, fileId }, selection: { query, skus } } satisfies Task;
+  }, [projectId, fileId, skus, sort, filters, search]);
+  const { value } = useBackgroundTask(task, version, TYPING_DELAY);
+
+  const last = React.useRef<{ fileId?: string; skus?: string[]; positions: number[] } | null>(null);
+  if (!task) {
+    last.current = null;
+  } else if (value) {
+    last.current = { fileId, skus, positions: value };
+  }
+  const kept = last.current && last.current.fileId === fileId && last.current.skus === skus ? last.current.positions : null;
+  return { active: Boolean(task), positions: task ? value ?? kept : null };
+};
 
 function App() {
   const [deFile, setDeFile] = React.useState<FileData | null>(null);
   const [productFile, setProductFile] = React.useState<FileData | null>(null);
+  const [extraSources, setExtraSources] = React.useState<FileData[]>([]);
   const [isLoading, setIsLoading] = React.useState(false);
   const [activeTab, setActiveTab] = React.useState<TabType>('de');
   const [isProcessed, setIsProcessed] = React.useState(false);
-  const [currentPage, setCurrentPage] = React.useState(1);
-  const rowsPerPage = 25;
+  // Sorting, filters, paging and columns per table
+  const [gridStates, setGridStates] = React.useState<Record<string, GridState>>({});
+  const tableViews = React.useRef(new Map<string, { rows: DataRow[]; state: GridState; view: DataRow[] }>());
   const [dbInitialized, setDbInitialized] = React.useState(false);
+  const [projects, setProjects] = React.useState<Project[]>([]);
+  const [projectId, setProjectId] = React.useState<string | null>(null);
+  // Saving waits until the open project has been read back, so switching never writes into the wrong one
+  const [projectLoaded, setProjectLoaded] = React.useState(false);
+  const currentProject = projects.find(project => project.id === projectId);
   const tabsRef = React.useRef<HTMLDivElement>(null);
-  const [mergedData, setMergedData] = React.useState<any[] | null>(null);
+  // The record of the stored merged rows, with the report, when they were merged and from which uploads
+  const [mergedTable, setMergedTable] = React.useState<FileData | null>(null);
+  // Bumped when edited cells are written into the stored merged rows, so what is read from them is read again
+  const [rowsVersion, setRowsVersion] = React.useState(0);
   const [isMerged, setIsMerged] = React.useState(false);
   const [isExtracting, setIsExtracting] = React.useState(false);
-  const [translatedFiles, setTranslatedFiles] = React.useState<{[key: string]: any[]}>({});
+  const [translations, setTranslations] = React.useState<LanguageTranslations>({});
+  const [translationLanguage, setTranslationLanguage] = React.useState<TranslationLanguage>(TRANSLATION_LANGUAGES[0].code);
+  // Detected upload waiting for its language and column to be confirmed
+  const [pendingTranslation, setPendingTranslation] = React.useState<TranslationImport | null>(null);
   const [isReplacingColumns, setIsReplacingColumns] = React.useState(false);
-  const [translatedMergedData, setTranslatedMergedData] = React.useState<any[] | null>(null);
+  // Records of the merged data with each language's translations applied
+  const [translatedTables, setTranslatedTables] = React.useState<Partial<Record<TranslationLanguage, FileData>>>({});
+  const [transforms, setTransforms] = React.useState<DataTransform[]>([]);
+  const [mergedView, setMergedView] = React.useState<'table' | 'images'>('table');
+  const [overrides, setOverrides] = React.useState<CellOverride[]>([]);
+  // Each undo step is a list of cell changes made together
+  const [overrideHistory, setOverrideHistory] = React.useState<{ undo: OverrideChange[][]; redo: OverrideChange[][] }>({
+    undo: [],
+    redo: [],
+  });
   const translatedColumnsRef = React.useRef<HTMLDivElement>(null);
+  const [mergeProfile, setMergeProfile] = React.useState<MergeProfile>(DEFAULT_MERGE_PROFILE);
+  const [mergeProfiles, setMergeProfiles] = React.useState<MergeProfile[]>([]);
+  const [showMapping, setShowMapping] = React.useState(false);
+  const [showValidation, setShowValidation] = React.useState(false);
+  const [warningsAcknowledged, setWarningsAcknowledged] = React.useState(false);
+  const [duplicateGroups, setDuplicateGroups] = React.useState<DuplicateGroup[] | null>(null);
+  const [duplicateResolutions, setDuplicateResolutions] = React.useState<DuplicateResolutions>({});
+  const [mergeReport, setMergeReport] = React.useState<MergeReport | null>(null);
+  const [reportFilter, setReportFilter] = React.useState<ReportCategory | null>(null);
+  const [acceptedMatches, setAcceptedMatches] = React.useState<MatchPair[]>([]);
+  const [rejectedMatches, setRejectedMatches] = React.useState<Set<string>>(new Set());
+  const matchDecisions = React.useMemo<MatchDecisions>(
+    () => ({ accepted: acceptedMatches, rejected: Array.from(rejectedMatches) }),
+    [acceptedMatches, rejectedMatches]
+  );
+  const [baseline, setBaseline] = React.useState<FileData | null>(null);
+  const [sheetPicker, setSheetPicker] = React.useState<{
+    sourceId: string;
+    file: File;
+    workbook: XLSX.WorkBook;
+  } | null>(null);
+  const [activeTask, setActiveTask] = React.useState<{
+    label: string;
+    percent: number;
+    cancel: () => void;
+  } | null>(null);
+  const [csvDialog, setCsvDialog] = React.useState<{
+    sourceId: string;
+    role: SourceRole;
+    file: File;
+    bytes: Uint8Array;
+    detected: CsvImportOptions;
+    initial: CsvImportOptions;
+  } | null>(null);
   const [notification, setNotification] = React.useState<{
     message: string;
     type: 'success' | 'error' | 'info';
@@ -39,291 +308,616 @@ function App() {
     setTimeout(() => setNotification(null), 5000);
   }, []);
 
-  const normalizeSKU = (sku: string): string => {
-    if (!sku) return '';
-    let normalized = sku.trim();
-    // Remove B34 prefix if it exists (case insensitive)
-    const prefixMatch = normalized.match(/^b34/i);
-    if (prefixMatch) {
-      normalized = normalized.slice(prefixMatch[0].length);
+  const deLoaded = deFile?.rowCount !== undefined;
+  const productLoaded = productFile?.rowCount !== undefined;
+  const deRowNumbers = deFile?.rowNumbers;
+  const productRowNumbers = productFile?.rowNumbers;
+  const sourcesKey = sourcesVersion([deFile, productFile, ...extraSources]);
+
+  // Every loaded file as a merge input, whose rows the worker reads from the store; additional sources
+  // that were not read yet are left out
+  const mergeSources = React.useMemo<SourceRef[]>(() => {
+    const sources: SourceRef[] = [];
+    if (deLoaded) {
+      sources.push({ id: DE_SOURCE_ID, name: 'DE File', role: 'de', rowNumbers: deRowNumbers });
     }
-    // Remove V1 suffix if it exists (case insensitive)
-    const suffixMatch = normalized.match(/v1$/i);
-    if (suffixMatch) {
-      normalized = normalized.slice(0, -suffixMatch[0].length);
+    if (productLoaded) {
+      sources.push({ id: PRODUCT_SOURCE_ID, name: 'Product Information', role: 'product', rowNumbers: productRowNumbers });
+    }
+    extraSources.forEach(source => {
+      if (source.rowCount !== undefined) {
+        sources.push({ id: source.id, name: source.name, role: source.role || 'other', rowNumbers: source.rowNumbers });
+      }
+    });
+    return sources;
+  }, [deLoaded, productLoaded, deRowNumbers, productRowNumbers, extraSources]);
+
+  const mappingSources = React.useMemo(() => {
+    const files = [deFile, productFile, ...extraSources];
+    return mergeSources.map(source => ({
+      id: source.id,
+      name: source.name,
+      headers: files.find(file => file?.id === source.id)?.headers || [],
+    }));
+  }, [mergeSources, deFile, productFile, extraSources]);
+
+  // Null while the files are checked
+  const { value: validationIssues } = useBackgroundTask(
+    React.useMemo(
+      () => (projectId && mergeSources.length > 0
+        ? { type: 'validate', projectId, sources: mergeSources } satisfies Task
+        : null),
+      [projectId, mergeSources]
+    ),
+    sourcesKey
+  );
+  const validationErrorCount = (validationIssues || []).filter(issue => issue.severity === 'error').length;
+  const validationWarningCount = (validationIssues || []).length - validationErrorCount;
+
+  // New uploads need a fresh look at their warnings
+  React.useEffect(() => {
+    setWarningsAcknowledged(false);
+  }, [validationIssues]);
+
+  const handleValidationExport = (issues: ValidationIssue[], format: 'csv' | 'xlsx') => {
+    const rows = issuesToRows(issues);
+    if (format === 'csv') {
+      downloadCSV(rows, 'validation_issues');
+    } else {
+      downloadXLSX(rows, 'validation_issues');
     }
-    return normalized.trim();
   };
 
-  const mergeFiles = () => {
-    if (!deFile?.content || !productFile?.content) return;
-    
-    setIsLoading(true);
-    
+  // Heavy work runs in the data worker, with its progress and a cancel button in the overlay
+  const runWorkerTask = async <T extends Task,>(label: string, task: T): Promise<TaskResult<T>> => {
+    const running = runInWorker(task, percent => setActiveTask(prev => prev && { ...prev, percent }));
+    setActiveTask({ label, percent: 0, cancel: running.cancel });
     try {
-      const deData = deFile.content;
-      const productData = productFile.content;
-      const mergedResults: any[] = [];
-      
-      // Create normalized SKU maps for faster lookups
-      const deMap = new Map();
-      const productMap = new Map();
-      
-      // Populate DE map with normalized SKUs
-      deData.forEach(item => {
-        if (!item.SKU) return;
-        const normalizedSku = normalizeSKU(item.SKU);
-        deMap.set(normalizedSku, item);
+      return await running.promise;
+    } finally {
+      setActiveTask(null);
+    }
+  };
+
+  const mergeFiles = async (matches: MatchPair[] = acceptedMatches, dataTransforms: DataTransform[] = transforms) => {
+    if (!projectId || !deLoaded || !productLoaded) return;
+
+    // Merging new uploads keeps the data it replaces to compare against. Re-merging the same
+    // uploads, e.g. after accepting a match or changing a transform, leaves the baseline alone.
+    const previous = mergedTable && (!baseline || mergedTable.sources !== sourcesKey) ? mergedTable : null;
+
+    try {
+      const { report, overrides: refreshedOverrides, headers, rowCount } = await runWorkerTask('Merging Files...', {
+        type: 'merge',
+        projectId,
+        sources: mergeSources,
+        profile: mergeProfile,
+        options: { resolutions: duplicateResolutions, matches },
+        transforms: dataTransforms,
+        overrides,
+        storeAs: { projectId, fileId: MERGED_DATA_ID },
+        keepPreviousAs: previous ? BASELINE_ID : undefined,
       });
-      
-      // Populate Product map with normalized SKUs
-      productData.forEach(item => {
-        if (!item.SKU) return;
-        const normalizedSku = normalizeSKU(item.SKU);
-        productMap.set(normalizedSku, item);
+
+      if (previous) storeBaseline(previous);
+      setMergedTable({
+        id: MERGED_DATA_ID,
+        name: 'merged_data',
+        type: 'json',
+        size: 0,
+        rowCount,
+        headers,
+        report,
+        savedAt: Date.now(),
+        sources: sourcesKey,
       });
-      
-      // Process common products (exist in both files)
-      for (const [normalizedSku, deItem] of deMap.entries()) {
-        if (productMap.has(normalizedSku)) {
-          const productItem = productMap.get(normalizedSku);
-          
-          // Merge description fields for common products
-          const descriptions = [];
-          // First, add descriptions 1-5 from the product file
-          if (productItem) {
-            for (let i = 1; i <= 5; i++) {
-              const descKey = `Description ${i}`;
-              if (productItem[descKey]) descriptions.push(productItem[descKey]);
-            }
-          }
-          // Then, add description 1 from the DE file
-          if (deItem['Description 1']) descriptions.push(deItem['Description 1']);
-          
-          const mergedDescription = descriptions.join('\n\n');
-          
-          // Process title - remove brand and SKU
-          let title = productItem.Name || '';
-          if (title && productItem.Brand) {
-            // Remove brand name from title if it starts with it
-            if (title.startsWith(productItem.Brand)) {
-              title = title.substring(productItem.Brand.length).trim();
-            }
-            
-            // Remove SKU from title if present
-            const sku = deItem.SKU || productItem.SKU;
-            if (sku && title.includes(sku)) {
-              title = title.replace(sku, '').trim();
-            }
-          }
-          
-          // Create merged product with index signature
-          const mergedProduct: { [key: string]: any } = {
-            SKU: normalizedSku,
-            EAN: deItem.EAN,
-            Subcategory: deItem.Category,
-            Category: productItem.Category,
-            Price: deItem.Price,
-            Stock: deItem.Stock,
-            Material: productItem.Material,
-            Title: title,
-            Brand: productItem.Brand,
-            'Product size': productItem['Product size/cm'],
-            'Package size Length': productItem['Package size/cm L'],
-            'Package size Width': productItem['Package size/cm W'],
-            'Package size Height': productItem['Package size/cm H'],
-            'Net weight': productItem['Net weight/kg'],
-            'Gross weight': productItem['Gross weight/kg'],
-            'Volume/CBM': productItem['Volume/CBM'],
-            Color: productItem.Color,
-            description: mergedDescription,
-          };
-          
-          // Add image URLs
-          for (let i = 1; i <= 12; i++) {
-            const imageKey = `image${i}`;
-            if (deItem[imageKey]) mergedProduct[imageKey] = deItem[imageKey];
-          }
-          
-          mergedResults.push(mergedProduct);
-          
-          // Remove processed items from maps to identify unique products later
-          productMap.delete(normalizedSku);
-        } else {
-          // Products only in DE file with index signature
-          const deSoloProduct: { [key: string]: any } = {
-            SKU: normalizedSku,
-            EAN: deItem.EAN,
-            Brand: deItem.Brand || '',
-            Category: deItem.Category,
-            Title: deItem.Title || '',
-            Price: deItem.Price,
-            Stock: deItem.Stock,
-            description: deItem['Description 1'] || '',
-          };
-          
-          // Add image URLs
-          for (let i = 1; i <= 12; i++) {
-            const imageKey = `image${i}`;
-            if (deItem[imageKey]) deSoloProduct[imageKey] = deItem[imageKey];
-          }
-          
-          mergedResults.push(deSoloProduct);
-        }
-      }
-      
-      // Process products only in Product Information file
-      for (const [normalizedSku, productItem] of productMap.entries()) {
-        // Process title - remove brand and SKU
-        let title = productItem.Name || '';
-        if (title && productItem.Brand) {
-          // Remove brand name from title if it starts with it
-          if (title.startsWith(productItem.Brand)) {
-            title = title.substring(productItem.Brand.length).trim();
-          }
-          
-          // Remove SKU from title if present
-          if (productItem.SKU && title.includes(productItem.SKU)) {
-            title = title.replace(productItem.SKU, '').trim();
-          }
-        }
-        
-        // Merge descriptions for Product Info only products
-        const descriptions = [];
-        for (let i = 1; i <= 5; i++) {
-          const descKey = `Description ${i}`;
-          if (productItem[descKey]) descriptions.push(productItem[descKey]);
-        }
-        // Include Specifications as per original Instruction #5
-        if (productItem.Specifications) {
-          descriptions.push(productItem.Specifications);
-        }
-        
-        const mergedDescription = descriptions.join('\n\n');
-        
-        // Create product info only product with index signature
-        const productInfoOnly: { [key: string]: any } = {
-          SKU: normalizedSku,
-          EAN: productItem.EAN || '',
-          Material: productItem.Material,
-          Title: title,
-          Subcategory: productItem.Title || '',
-          Category: productItem.Category,
-          Brand: productItem.Brand,
-          'Product size': productItem['Product size/cm'],
-          'Package size Length': productItem['Package size/cm L'],
-          'Package size Width': productItem['Package size/cm W'],
-          'Package size Height': productItem['Package size/cm H'],
-          'Net weight': productItem['Net weight/kg'],
-          'Gross weight': productItem['Gross weight/kg'],
-          'Volume/CBM': productItem['Volume/CBM'],
-          Color: productItem.Color,
-          description: mergedDescription,
-        };
-        
-        // Add image URLs
-        for (let i = 1; i <= 12; i++) {
-          const imageKey = `image${i}`;
-          if (productItem[imageKey]) productInfoOnly[imageKey] = productItem[imageKey];
-        }
-        
-        mergedResults.push(productInfoOnly);
-      }
-      
-      setMergedData(mergedResults);
+      setOverrides(refreshedOverrides);
+      db.saveOverrides(projectId, refreshedOverrides).catch(error => {
+        console.error('Error saving manual edits:', error);
+      });
+      setMergeReport(report);
+      setReportFilter(null);
       setIsMerged(true);
       
-      // Save merged data to DB
-      const updatedDeFile = {...deFile, mergedData: mergedResults};
-      setDeFile(updatedDeFile);
-      db.saveFile(updatedDeFile);
-      
       // Switch to merged tab
       setActiveTab('merged');
       
     } catch (error) {
+      if (error instanceof TaskCancelledError) return;
       console.error('Error merging files:', error);
-    } finally {
-      setIsLoading(false);
+      showNotification('Error merging files', 'error');
     }
   };
 
-  const downloadCSV = (data: any[]) => {
-    const csv = Papa.unparse(data);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'data.csv');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Records merged rows that were moved or copied to the baseline. The baseline keeps the date of the
+  // merge that produced it.
+  const storeBaseline = (merged: FileData) => {
+    const snapshot: FileData = {
+      id: BASELINE_ID,
+      name: 'previous_merged_data',
+      type: 'json',
+      size: 0,
+      rowCount: merged.rowCount,
+      headers: merged.headers,
+      savedAt: merged.savedAt ?? Date.now(),
+    };
+    setBaseline(snapshot);
+    if (!projectId) return;
+    db.saveFile(projectId, snapshot).catch(error => {
+      console.error('Error saving merge baseline:', error);
+    });
   };
 
-  const downloadXLSX = async (data: any[]) => {
+  const saveBaseline = async () => {
+    if (!projectId || !mergedTable) return;
     try {
-      // Clean the data to ensure it's properly serializable
-      const cleanData = data.map(row => {
-        const cleanRow: {[key: string]: any} = {};
-        Object.keys(row).forEach(key => {
-          // Handle undefined, null, or complex objects
-          if (row[key] === undefined || row[key] === null) {
-            cleanRow[key] = '';
-          } else if (typeof row[key] === 'object') {
-            cleanRow[key] = JSON.stringify(row[key]);
-          } else {
-            cleanRow[key] = row[key];
-          }
-        });
-        return cleanRow;
+      await db.copyRows(projectId, MERGED_DATA_ID, BASELINE_ID);
+      storeBaseline(mergedTable);
+    } catch (error) {
+      console.error('Error saving merge baseline:', error);
+    }
+  };
+
+  const mergedStore = React.useMemo(
+    () => (projectId && isMerged ? { projectId, fileId: MERGED_DATA_ID } : null),
+    [projectId, isMerged]
+  );
+  const mergedVersion = `${mergedTable?.savedAt}:${rowsVersion}`;
+
+  const { value: mergeDiff } = useBackgroundTask(
+    React.useMemo(
+      () => (mergedStore && baseline
+        ? { type: 'diff', previous: { projectId: mergedStore.projectId, fileId: BASELINE_ID }, current: mergedStore } satisfies Task
+        : null),
+      [mergedStore, baseline]
+    ),
+    mergedVersion
+  );
+
+  const handleDeltaExport = (types: ChangeType[], format: 'csv' | 'xlsx') => {
+    if (!mergeDiff) return;
+    const rows = buildDeltaRows(mergeDiff, types);
+    if (format === 'csv') {
+      downloadCSV(rows, 'delta');
+    } else {
+      downloadXLSX(rows, 'delta');
+    }
+  };
+
+  // List duplicate normalized SKUs before merging so the user can resolve them
+  const requestMerge = async () => {
+    if (!projectId || !deLoaded || !productLoaded) return;
+
+    let issues = validationIssues;
+    try {
+      // The background check may not have finished on freshly read files
+      if (!issues) issues = await runWorkerTask('Validating files...', { type: 'validate', projectId, sources: mergeSources });
+    } catch (error) {
+      if (error instanceof TaskCancelledError) return;
+      console.error('Error validating files:', error);
+      showNotification('Error validating files', 'error');
+      return;
+    }
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+    const warningCount = issues.length - errorCount;
+    if (errorCount > 0) {
+      setShowValidation(true);
+      showNotification(`Fix ${errorCount} validation error(s) before merging`, 'error');
+      return;
+    }
+    if (warningCount > 0 && !warningsAcknowledged) {
+      setShowValidation(true);
+      showNotification(`Review ${warningCount} validation warning(s) before merging`, 'info');
+      return;
+    }
+
+    let groups: DuplicateGroup[];
+    try {
+      groups = await runWorkerTask('Checking for duplicate SKUs...', {
+        type: 'findDuplicates',
+        projectId,
+        sources: mergeSources,
+        skuRules: mergeProfile.skuRules,
       });
-      
-      // Create a new workbook using ExcelJS
-      const workbook = new ExcelJS.Workbook();
-      const worksheet = workbook.addWorksheet('Data');
-      
-      // Add headers
-      if (cleanData.length > 0) {
-        const headers = Object.keys(cleanData[0]);
-        worksheet.columns = headers.map(header => ({ header, key: header }));
-        
-        // Add rows
-        cleanData.forEach(row => {
-          worksheet.addRow(row);
-        });
+    } catch (error) {
+      if (error instanceof TaskCancelledError) return;
+      console.error('Error checking for duplicate SKUs:', error);
+      showNotification('Error checking for duplicate SKUs', 'error');
+      return;
+    }
+
+    if (groups.length > 0) {
+      setDuplicateGroups(groups);
+    } else {
+      mergeFiles();
+    }
+  };
+
+  const confirmDuplicateResolutions = () => {
+    setDuplicateGroups(null);
+    mergeFiles();
+  };
+
+  // Fuzzy matching compares every unmatched SKU with every other, so it runs in the worker after each merge
+  const { value: matchCandidates } = useBackgroundTask(
+    React.useMemo(
+      () => (projectId && mergeReport && deLoaded && productLoaded
+        ? {
+          type: 'findMatches',
+          projectId,
+          skuRules: mergeProfile.skuRules,
+          report: mergeReport,
+          settings: mergeProfile.matching,
+          rejected: rejectedMatches,
+        } satisfies Task
+        : null),
+      [projectId, deLoaded, productLoaded, mergeProfile.skuRules, mergeProfile.matching, mergeReport, rejectedMatches]
+    )
+  );
+
+  const handleApplyMatches = (pairs: MatchPair[]) => {
+    const matches = [...acceptedMatches, ...pairs];
+    setAcceptedMatches(matches);
+    mergeFiles(matches);
+  };
+
+  const handleRejectMatch = (pair: MatchPair) => {
+    setRejectedMatches(prev => new Set(prev).add(matchKey(pair)));
+  };
+
+  const addExtraSource = () => {
+    const numbers = extraSources.map(source => Number(source.id.slice(EXTRA_SOURCE_PREFIX.length)) || 0);
+    // Numbering continues after the two built-in sources so profiles can refer to source-3, source-4, ...
+    const id = `${EXTRA_SOURCE_PREFIX}${Math.max(2, ...numbers) + 1}`;
+    setExtraSources(prev => [
+      ...prev,
+      { id, name: `Source ${prev.length + 3}`, role: 'stock', type: '', size: 0 },
+    ]);
+  };
+
+  const updateExtraSource = (id: string, changes: Partial<FileData>) => {
+    setExtraSources(prev => prev.map(source => (source.id === id ? { ...source, ...changes } : source)));
+  };
+
+  const loadExtraSource = async (id: string, file: File, importOptions?: ImportOptions) => {
+    if (!projectId) return;
+    try {
+      const { headers, rowCount, rowNumbers } = await runWorkerTask(`Reading ${file.name}...`, {
+        type: 'import',
+        file,
+        options: importOptions,
+        storeAs: { projectId, fileId: id },
+      });
+      updateExtraSource(id, {
+        fileName: file.name,
+        type: getFileType(file),
+        size: file.size,
+        importOptions,
+        rowCount,
+        headers,
+        rowNumbers,
+        savedAt: Date.now(),
+      });
+    } catch (error) {
+      if (error instanceof TaskCancelledError) return;
+      console.error(`Error parsing additional source ${file.name}:`, error);
+      showNotification(`Could not read ${file.name}`, 'error');
+    }
+  };
+
+  const handleExtraSourceFile = async (id: string, file: File) => {
+    let importOptions: ImportOptions | undefined;
+    try {
+      setIsLoading(true);
+      // The sheet picker or CSV dialog loads the file once the user has made their choices
+      if (isExcelFile(file)) {
+        if (await openSheetPicker(id, file)) return;
+      } else {
+        const role = extraSources.find(source => source.id === id)?.role || 'other';
+        const csv = await prepareCsvImport(id, role, file);
+        if (!csv) return;
+        importOptions = { csv };
       }
-      
-      // Generate buffer using ExcelJS
-      const buffer = await workbook.xlsx.writeBuffer();
-      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-      
-      // Create download link
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'data.xlsx';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(`Error reading additional source ${file.name}:`, error);
+      showNotification(`Could not read ${file.name}`, 'error');
+      return;
+    } finally {
+      setIsLoading(false);
+    }
+    loadExtraSource(id, file, importOptions);
+  };
+
+  const removeExtraSource = (id: string) => {
+    setExtraSources(prev => prev.filter(source => source.id !== id));
+    if (activeTab === `source:${id}`) setActiveTab('de');
+    if (projectId) db.deleteFile(projectId, id);
+  };
+
+  // The profile editors read samples of the data only while they are open
+  const { value: skuRulesPreview } = useBackgroundTask(
+    React.useMemo(
+      () => (showMapping && projectId
+        ? { type: 'previewSkuRules', projectId, skuRules: mergeProfile.skuRules } satisfies Task
+        : null),
+      [showMapping, projectId, mergeProfile.skuRules]
+    ),
+    sourcesKey,
+    TYPING_DELAY
+  );
+
+  const { value: descriptionSamples } = useBackgroundTask(
+    React.useMemo(
+      () => (showMapping && projectId
+        ? { type: 'findDescriptionSamples', projectId, sources: mergeSources, skuRules: mergeProfile.skuRules } satisfies Task
+        : null),
+      [showMapping, projectId, mergeSources, mergeProfile.skuRules]
+    ),
+    sourcesKey
+  );
+
+  const { value: categoryPairs } = useBackgroundTask(
+    React.useMemo(
+      () => (showMapping && mergedStore ? { type: 'collectCategoryPairs', table: mergedStore } satisfies Task : null),
+      [showMapping, mergedStore]
+    ),
+    mergedVersion
+  );
+
+  const handleImportTaxonomy = async (file: File) => {
+    try {
+      const rows = await runWorkerTask(`Reading ${file.name}...`, { type: 'parse', file });
+      const taxonomy = parseTaxonomy(rows);
+      setMergeProfile(prev => ({ ...prev, categories: { ...prev.categories, taxonomy } }));
+      showNotification(`Imported ${taxonomy.length} shop categories`, 'success');
+    } catch (error) {
+      if (error instanceof TaskCancelledError) return;
+      console.error('Error importing taxonomy:', error);
+      showNotification(error instanceof Error ? error.message : 'Could not import the taxonomy', 'error');
+    }
+  };
+
+  const handleSelectProfile = (id: string) => {
+    const selected = mergeProfiles.find(profile => profile.id === id);
+    setMergeProfile(selected || DEFAULT_MERGE_PROFILE);
+  };
+
+  const handleSaveProfile = async (name: string) => {
+    // Saving under a new name (or from the built-in default) creates a new profile
+    const isNew = mergeProfile.id === DEFAULT_MERGE_PROFILE.id || mergeProfile.name !== name;
+    const saved: MergeProfile = {
+      ...mergeProfile,
+      id: isNew ? crypto.randomUUID() : mergeProfile.id,
+      name,
+      updatedAt: Date.now(),
+    };
+
+    try {
+      await db.saveProfile(saved);
+      setMergeProfile(saved);
+      setMergeProfiles(prev => [...prev.filter(profile => profile.id !== saved.id), saved]);
+      showNotification(`Saved mapping profile "${name}"`, 'success');
+    } catch (error) {
+      console.error('Error saving mapping profile:', error);
+      showNotification('Failed to save mapping profile', 'error');
+    }
+  };
+
+  const handleDeleteProfile = async (id: string) => {
+    try {
+      await db.deleteProfile(id);
+      setMergeProfiles(prev => prev.filter(profile => profile.id !== id));
+      setMergeProfile(DEFAULT_MERGE_PROFILE);
+    } catch (error) {
+      console.error('Error deleting mapping profile:', error);
+    }
+  };
+
+  const downloadCSV = (data: DataRow[], fileName = 'data') => {
+    downloadBlob(toCsvBlob(data), `${fileName}.csv`);
+  };
+
+  const downloadXLSX = async (data: DataRow[], fileName = 'data') => {
+    try {
+      downloadBlob(await toXlsxBlob(data), `${fileName}.xlsx`);
     } catch (error) {
       console.error('Error exporting to XLSX with ExcelJS:', error);
     }
   };
 
+  // Stored rows are written into the file by the worker, which reads them from IndexedDB
+  const exportStoredRows = async (
+    fileId: string,
+    selection: { query?: GridState; skus?: string[] },
+    columns: string[] | undefined,
+    format: ExportFormat,
+    fileName: string
+  ) => {
+    if (!projectId) return;
+    try {
+      const blob = await runWorkerTask('Exporting rows...', {
+        type: 'export',
+        table: { projectId, fileId },
+        selection,
+        columns,
+        format,
+      });
+      downloadBlob(blob, `${fileName}.${format}`);
+    } catch (error) {
+      if (error instanceof TaskCancelledError) return;
+      console.error('Error exporting rows:', error);
+      showNotification('Could not export the rows', 'error');
+    }
+  };
+
+  const handleReportFilter = (category: ReportCategory | null) => {
+    setReportFilter(category);
+  };
+
+  const handleReportExport = (category: ReportCategory, format: 'csv' | 'xlsx') => {
+    if (!mergeReport) return;
+    if (!isRowCategory(category)) {
+      exportStoredRows(MERGED_DATA_ID, { skus: mergeReport[category] }, undefined, format, REPORT_FILE_NAMES[category]);
+    } else if (format === 'csv') {
+      downloadCSV(mergeReport[category], REPORT_FILE_NAMES[category]);
+    } else {
+      downloadXLSX(mergeReport[category], REPORT_FILE_NAMES[category]);
+    }
+  };
+
+  // Keeps this run's result so next week's merge can be compared against it. The merged rows are
+  // only removed once they are safely in the baseline.
+  const keepMergedAsBaseline = async (projectId: string, merged: FileData) => {
+    try {
+      await db.moveRows(projectId, MERGED_DATA_ID, BASELINE_ID);
+      storeBaseline(merged);
+    } catch (error) {
+      console.error('Error saving merge baseline:', error);
+      showNotification('Could not keep the merged data for the next comparison', 'error');
+      return;
+    }
+    db.deleteFile(projectId, MERGED_DATA_ID);
+  };
+
   const handleClear = () => {
     // Clear all states
     setDeFile(null);
     setProductFile(null);
+    setExtraSources([]);
     setIsProcessed(false);
-    setMergedData(null);
+    setMergedTable(null);
     setIsMerged(false);
-    setCurrentPage(1);
+    setGridStates({});
+    setDuplicateResolutions({});
+    setMergeReport(null);
+    setReportFilter(null);
+    setAcceptedMatches([]);
+    setRejectedMatches(new Set());
     
     // Clear storage
-    db.deleteFile('deFile');
-    db.deleteFile('productFile');
-    db.deleteFile('mergedData');
+    if (!projectId) return;
+    db.deleteFile(projectId, DE_SOURCE_ID);
+    db.deleteFile(projectId, PRODUCT_SOURCE_ID);
+    if (mergedTable) keepMergedAsBaseline(projectId, mergedTable);
+    extraSources.forEach(source => db.deleteFile(projectId, source.id));
+  };
+
+  // The load effect reads the new project back; until then nothing is saved
+  const switchProject = (id: string) => {
+    if (id === projectId) return;
+    setProjectLoaded(false);
+    setProjectId(id);
+    setActiveTab('de');
+    setGridStates({});
+    setDuplicateGroups(null);
+    setDuplicateResolutions({});
+    setReportFilter(null);
+    setAcceptedMatches([]);
+    setRejectedMatches(new Set());
+    setOverrideHistory({ undo: [], redo: [] });
+    db.saveSetting(CURRENT_PROJECT_SETTING, id).catch(error => {
+      console.error('Error saving current project:', error);
+    });
+  };
+
+  const handleCreateProject = async () => {
+    const now = Date.now();
+    const project: Project = { id: crypto.randomUUID(), name: `Project ${projects.length + 1}`, createdAt: now, updatedAt: now };
+    try {
+      await db.saveProject(project);
+      setProjects(prev => [...prev, project]);
+      switchProject(project.id);
+    } catch (error) {
+      console.error('Error creating project:', error);
+      showNotification('Could not create the project', 'error');
+    }
+  };
+
+  const handleRenameProject = (name: string) => {
+    setProjects(prev => prev.map(project => (project.id === projectId ? { ...project, name } : project)));
+  };
+
+  const handleDuplicateProject = async () => {
+    if (!currentProject) return;
+    const now = Date.now();
+    const copy: Project = {
+      ...currentProject,
+      id: crypto.randomUUID(),
+      name: `${currentProject.name} (copy)`,
+      profile: mergeProfile,
+      translations,
+      transforms,
+      matches: matchDecisions,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await db.duplicateProject(currentProject.id, copy);
+      setProjects(prev => [...prev, copy]);
+      switchProject(copy.id);
+      showNotification(`Opened ${copy.name}`, 'success');
+    } catch (error) {
+      console.error('Error duplicating project:', error);
+      showNotification('Could not duplicate the project', 'error');
+    }
+  };
+
+  const handleExportProject = async () => {
+    if (!currentProject) return;
+    try {
+      setIsLoading(true);
+      // Export what is on screen, including profile edits the save effect has not written yet
+      const bundle = await exportProject(db, { ...currentProject, profile: mergeProfile, translations, transforms, matches: matchDecisions });
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = bundleFileName(currentProject);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      showNotification('Could not export the project', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      setIsLoading(true);
+      const project = await importProject(db, file);
+      setProjects(prev => [...prev, project]);
+      switchProject(project.id);
+      showNotification(`Imported ${project.name}`, 'success');
+    } catch (error) {
+      console.error('Error importing project:', error);
+      showNotification(error instanceof Error ? error.message : 'Could not import the project', 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!currentProject) return;
+    if (!window.confirm(`Delete ${currentProject.name} and all of its files?`)) return;
+    try {
+      await db.deleteProject(currentProject.id);
+      let remaining = projects.filter(project => project.id !== currentProject.id);
+      // There is always a project to work in
+      if (remaining.length === 0) {
+        const now = Date.now();
+        const project: Project = { id: crypto.randomUUID(), name: 'My project', createdAt: now, updatedAt: now };
+        await db.saveProject(project);
+        remaining = [project];
+      }
+      setProjects(remaining);
+      switchProject(remaining[0].id);
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      showNotification('Could not delete the project', 'error');
+    }
   };
 
   React.useEffect(() => {
@@ -340,141 +934,248 @@ function App() {
     initDB();
   }, []);
 
+  // Open the project used last time, creating the first one on a fresh install
   React.useEffect(() => {
     if (!dbInitialized) return;
 
+    const loadProjects = async () => {
+      try {
+        let savedProjects = await db.getProjects();
+        if (savedProjects.length === 0) {
+          const now = Date.now();
+          const project: Project = { id: DEFAULT_PROJECT_ID, name: 'My project', createdAt: now, updatedAt: now };
+          await db.saveProject(project);
+          savedProjects = [project];
+        }
+        const lastOpened = await db.getSetting<string>(CURRENT_PROJECT_SETTING);
+        setProjects(savedProjects);
+        setMergeProfiles(await db.getProfiles());
+        setProjectId(savedProjects.some(project => project.id === lastOpened) ? lastOpened! : savedProjects[0].id);
+      } catch (error) {
+        console.error('Error loading projects:', error);
+      }
+    };
+
+    loadProjects();
+  }, [dbInitialized]);
+
+  React.useEffect(() => {
+    if (!dbInitialized || !projectId) return;
+    let cancelled = false;
+
     const loadFiles = async () => {
       try {
-        const savedDeFile = await db.getFile('deFile');
-        const savedProductFile = await db.getFile('productFile');
-        const savedMergedData = await db.getFile('mergedData');
-
-        if (savedDeFile) setDeFile(savedDeFile);
-        if (savedProductFile) setProductFile(savedProductFile);
-        if (savedMergedData) {
-          setMergedData(savedMergedData.content || null);
-          setIsMerged(true);
+        // Records hold metadata only and the rows stay in the row store. Records saved before
+        // the headers were kept take them from the first rows.
+        const withHeaders = async (file: FileData | null): Promise<FileData | null> =>
+          file && file.rowCount !== undefined && !file.headers
+            ? { ...file, headers: getHeaders(await db.getRows(projectId, file.id, 0, 50)) }
+            : file;
+
+        const savedDeFile = await withHeaders(await db.getFile(projectId, DE_SOURCE_ID));
+        const savedProductFile = await withHeaders(await db.getFile(projectId, PRODUCT_SOURCE_ID));
+        const savedMergedData = await withHeaders(await db.getFile(projectId, MERGED_DATA_ID));
+        const savedBaseline = await withHeaders(await db.getFile(projectId, BASELINE_ID));
+        const savedTranslatedTables: Partial<Record<TranslationLanguage, FileData>> = {};
+        for (const { code } of TRANSLATION_LANGUAGES) {
+          const saved = await withHeaders(await db.getFile(projectId, translatedTableId(code)));
+          if (saved?.rowCount !== undefined) savedTranslatedTables[code] = saved;
         }
 
-        if (savedDeFile && savedProductFile) {
-          setIsProcessed(true);
+        const savedFiles = await Promise.all(
+          (await db.getAllFiles(projectId))
+            .filter(file => file.id.startsWith(EXTRA_SOURCE_PREFIX))
+            .map(async file => (await withHeaders(file))!)
+        );
+
+        const savedOverrides = await db.getOverrides(projectId);
+        const project = (await db.getProjects()).find(saved => saved.id === projectId);
+        const savedProfiles = await db.getProfiles();
+        if (cancelled) return;
+
+        setBaseline(savedBaseline);
+        setDeFile(savedDeFile);
+        setProductFile(savedProductFile);
+        setExtraSources(savedFiles);
+        setMergedTable(savedMergedData);
+        setMergeReport(savedMergedData?.report ? { ...createEmptyReport(), ...savedMergedData.report } : null);
+        setIsMerged(Boolean(savedMergedData));
+        setIsProcessed(Boolean(savedDeFile && savedProductFile));
+        setTranslatedTables(savedTranslatedTables);
+        setTranslations(project?.translations || {});
+        setTransforms(project?.transforms || []);
+        setAcceptedMatches(project?.matches?.accepted || []);
+        setRejectedMatches(new Set(project?.matches?.rejected || []));
+        setOverrides(savedOverrides);
+
+        // Projects keep their own mapping; older ones start from the most recently saved profile
+        if (project?.profile) {
+          setMergeProfile(withProfileDefaults(project.profile));
+        } else if (savedProfiles.length > 0) {
+          setMergeProfile(savedProfiles.reduce((latest, profile) =>
+            profile.updatedAt > latest.updatedAt ? profile : latest
+          ));
+        } else {
+          setMergeProfile(DEFAULT_MERGE_PROFILE);
         }
+        setProjectLoaded(true);
       } catch (error) {
         console.error('Error loading saved files:', error);
       }
     };
 
     loadFiles();
-  }, [dbInitialized]);
+    return () => {
+      cancelled = true;
+    };
+  }, [dbInitialized, projectId]);
 
   React.useEffect(() => {
-    const updateDB = async () => {
-      if (deFile) await db.saveFile(deFile);
-      if (productFile) await db.saveFile(productFile);
-      if (mergedData) {
-        await db.saveFile({
-          id: 'mergedData',
-          name: 'merged_data',
-          type: 'json',
-          size: 0,
-          content: mergedData
-        });
+    const updateDB = async (projectId: string) => {
+      if (deFile) await db.saveFile(projectId, deFile);
+      if (productFile) await db.saveFile(projectId, productFile);
+      for (const source of extraSources) {
+        await db.saveFile(projectId, source);
+      }
+      if (mergedTable) await db.saveFile(projectId, mergedTable);
+      for (const table of Object.values(translatedTables)) {
+        if (table) await db.saveFile(projectId, table);
       }
     };
 
-    if (dbInitialized) {
-      updateDB();
+    if (dbInitialized && projectLoaded && projectId) {
+      updateDB(projectId);
     }
-  }, [deFile, productFile, mergedData, dbInitialized]);
+  }, [deFile, productFile, extraSources, mergedTable, translatedTables, dbInitialized, projectLoaded, projectId]);
+
+  // The project record carries its mapping profile, the translations uploaded so far, the data transforms
+  // and the match decisions
+  React.useEffect(() => {
+    if (!projectLoaded || !currentProject) return;
+    db.saveProject({ ...currentProject, profile: mergeProfile, translations, transforms, matches: matchDecisions, updatedAt: Date.now() })
+      .catch(error => console.error('Error saving project:', error));
+  }, [projectLoaded, currentProject, mergeProfile, translations, transforms, matchDecisions]);
+
+  const coverageTask = React.useMemo(
+    () => (mergedStore
+      ? {
+        type: 'checkCoverage',
+        table: mergedStore,
+        translatedColumns: translations[translationLanguage] || {},
+        skuRules: mergeProfile.skuRules,
+      } satisfies Task
+      : null),
+    [mergedStore, translations, translationLanguage, mergeProfile.skuRules]
+  );
+  const { value: translationCoverage } = useBackgroundTask(coverageTask, mergedVersion);
+
+  const translatedTable = translatedTables[translationLanguage];
+  const translationLabel = TRANSLATION_LANGUAGES.find(({ code }) => code === translationLanguage)?.label;
+
+  const getGridState = (id: string) => gridStates[id] || DEFAULT_GRID_STATE;
+
+  // The stored table the tabs show and the grid it is shown in; the skipped and duplicate rows of the
+  // merge report are held in memory instead
+  const activeSource = extraSources.find(source => activeTab === `source:${source.id}`);
+  const tabTable =
+    activeTab === 'de' ? deFile && { gridId: DE_SOURCE_ID, file: deFile }
+    : activeTab === 'product' ? productFile && { gridId: PRODUCT_SOURCE_ID, file: productFile }
+    : activeSource ? { gridId: activeSource.id, file: activeSource }
+    : activeTab === 'merged' && mergedTable
+      ? !reportFilter
+        ? { gridId: MERGED_DATA_ID, file: mergedTable }
+        : mergeReport && !isRowCategory(reportFilter)
+          ? { gridId: `report:${reportFilter}`, file: mergedTable, skus: mergeReport[reportFilter] }
+          : null
+      : null;
+  const tabQuery = useRowQuery(
+    projectId,
+    tabTable && { fileId: tabTable.file.id, skus: tabTable.skus },
+    getGridState(tabTable?.gridId ?? ''),
+    `${tabTable?.file.savedAt}:${rowsVersion}`
+  );
+  const tabView: StoredView | null = tabTable && { file: tabTable.file, skus: tabTable.skus, query: tabQuery };
+
+  const translatedQuery = useRowQuery(
+    projectId,
+    translatedTable ? { fileId: translatedTable.id } : null,
+    getGridState(translatedTableId(translationLanguage)),
+    translatedTable?.savedAt
+  );
+
+  // The gallery lists the products of the merged table, searched and filtered
+  const showGallery = activeTab === 'merged' && !reportFilter && mergedView === 'images';
+  const { sort: mergedSort, filters: mergedFilters, search: mergedSearch } = getGridState(MERGED_DATA_ID);
+  const { value: imageSummary } = useBackgroundTask(
+    React.useMemo(
+      () => (showGallery && mergedStore
+        ? {
+          type: 'summarizeImages',
+          table: mergedStore,
+          selection: { query: { ...DEFAULT_GRID_STATE, sort: mergedSort, filters: mergedFilters, search: mergedSearch } },
+        } satisfies Task
+        : null),
+      [showGallery, mergedStore, mergedSort, mergedFilters, mergedSearch]
+    ),
+    mergedVersion,
+    TYPING_DELAY
+  );
 
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+  const updateGrid = (id: string, changes: Partial<GridState>) => {
+    setGridStates(prev => ({ ...prev, [id]: { ...(prev[id] || DEFAULT_GRID_STATE), ...changes } }));
   };
 
-  const parseFile = async (file: File): Promise<any[]> => {
-    const fileType = file.name.split('.').pop()?.toLowerCase() || '';
-    
-    if (fileType === 'csv') {
-      return parseCsvFile(file);
-    } else if (fileType === 'xlsx' || fileType === 'xls') {
-      return parseExcelFile(file);
+  const setColumnFilter = (id: string, column: string, filter: ColumnFilter | undefined) => {
+    const filters = { ...getGridState(id).filters };
+    if (filter) {
+      filters[column] = filter;
+    } else {
+      delete filters[column];
     }
-    
-    throw new Error('Unsupported file type');
+    updateGrid(id, { filters });
   };
 
-  const parseCsvFile = (file: File): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      Papa.parse(file, {
-        complete: (results) => resolve(results.data),
-        header: true,
-        error: (error) => reject(error),
-      });
-    });
+  // Rows of a table after its filters, search and sort; reused while only the columns change
+  const getTableRows = (id: string, rows: DataRow[]): DataRow[] => {
+    const state = getGridState(id);
+    const cached = tableViews.current.get(id);
+    if (
+      cached && cached.rows === rows &&
+      cached.state.sort === state.sort && cached.state.filters === state.filters && cached.state.search === state.search
+    ) {
+      return cached.view;
+    }
+    const view = queryRows(rows, state);
+    tableViews.current.set(id, { rows, state, view });
+    return view;
   };
 
-  const parseExcelFile = (file: File): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const buffer = e.target?.result;
-          if (!buffer) {
-            throw new Error('Failed to read file buffer.');
-          }
-
-          console.log(`Attempting to parse workbook with SheetJS: ${file.name}`);
-          const workbook = XLSX.read(buffer, { type: 'array' });
-          
-          // Get the first sheet name
-          const firstSheetName = workbook.SheetNames[0];
-          if (!firstSheetName) {
-            throw new Error('No worksheet found in the Excel file.');
-          }
-          const worksheet = workbook.Sheets[firstSheetName];
-          console.log(`Using worksheet: ${firstSheetName}`);
-
-          // Convert sheet to JSON with headers option
-          // This will automatically use the first row as headers and return objects
-          const data = XLSX.utils.sheet_to_json(worksheet, { 
-            defval: '', // Empty cells become empty strings
-            raw: false, // Convert all numbers to strings
-            blankrows: false // Skip blank rows
-          });
-
-          console.log(`Parsed ${data.length} data rows with SheetJS from ${file.name}`);
-          resolve(data);
-
-        } catch (error: any) {
-          console.error(`Error parsing Excel file ${file.name} with SheetJS:`, error);
-          if (error instanceof Error) {
-            reject(new Error(`Error parsing Excel file ${file.name} with SheetJS: ${error.message}`));
-          } else {
-            reject(new Error(`An unknown error occurred while parsing Excel file ${file.name} with SheetJS.`));
-          }
-        }
-      };
-      reader.onerror = (error) => {
-        console.error(`FileReader error for file ${file.name}:`, error);
-        reject(new Error(`FileReader failed for ${file.name}.`));
-      };
-      // Use readAsArrayBuffer for SheetJS
-      reader.readAsArrayBuffer(file);
-    });
-  };
+  // What the grid shows, for downloads: filtered, sorted and limited to the visible columns
+  const getExportRows = (id: string, rows: DataRow[]): DataRow[] =>
+    projectColumns(getTableRows(id, rows), getVisibleColumns(getHeaders(rows), getGridState(id)));
 
   const handleProcessFiles = async () => {
     try {
-      setIsLoading(true);
       const deInput = document.getElementById('de-file') as HTMLInputElement;
       const productInput = document.getElementById('product-file') as HTMLInputElement;
       
-      if (deInput.files?.[0] && productInput.files?.[0]) {
-        const deContent = await parseFile(deInput.files[0]);
-        const productContent = await parseFile(productInput.files[0]);
+      if (projectId && deInput.files?.[0] && productInput.files?.[0]) {
+        const de = await runWorkerTask('Processing DE file...', {
+          type: 'import',
+          file: deInput.files[0],
+          options: deFile?.importOptions,
+          storeAs: { projectId, fileId: DE_SOURCE_ID },
+        });
+        const product = await runWorkerTask('Processing product file...', {
+          type: 'import',
+          file: productInput.files[0],
+          options: productFile?.importOptions,
+          storeAs: { projectId, fileId: PRODUCT_SOURCE_ID },
+        });
 
-        setDeFile(prev => prev ? { ...prev, content: deContent } : null);
-        setProductFile(prev => prev ? { ...prev, content: productContent } : null);
+        const savedAt = Date.now();
+        setDeFile(prev => prev ? { ...prev, ...de, savedAt } : null);
+        setProductFile(prev => prev ? { ...prev, ...product, savedAt } : null);
         setIsProcessed(true);
         
         // Wait for state updates to complete
@@ -483,9 +1184,9 @@ function App() {
         }, 100);
       }
     } catch (error) {
+      if (error instanceof TaskCancelledError) return;
       console.error('Error processing files:', error);
-    } finally {
-      setIsLoading(false);
+      showNotification(error instanceof Error ? error.message : 'Error processing files', 'error');
     }
   };
 
@@ -504,169 +1205,303 @@ function App() {
       return;
     }
 
+    const id = setFile === setDeFile ? DE_SOURCE_ID : PRODUCT_SOURCE_ID;
     setFile({
-      id: setFile === setDeFile ? 'deFile' : 'productFile',
+      id,
       name: file.name,
       type: fileType,
       size: file.size,
     } as FileData);
+    if (isExcelFile(file)) {
+      openSheetPicker(id, file);
+    } else {
+      prepareCsvImport(id, id === DE_SOURCE_ID ? 'de' : 'product', file)
+        .then(csv => csv && applyImportOptions(id, { csv }))
+        .catch(error => {
+          console.error(`Error reading ${file.name}:`, error);
+          showNotification(`Could not read ${file.name}`, 'error');
+        });
+    }
   };
 
-  const renderTable = (data: any[] | undefined | null, showActionButtons = true) => {
-    if (!data || data.length === 0) return null;
-    
-    const totalPages = Math.ceil(data.length / rowsPerPage);
-    const startIndex = (currentPage - 1) * rowsPerPage;
-    const paginatedData = data.slice(startIndex, startIndex + rowsPerPage);
-    const headers = Object.keys(data[0]);
-    const isUrl = (str: string) => {
-      try {
-        new URL(str);
+  // Only for the DE and product files, which are parsed when the user processes them
+  const applyImportOptions = (sourceId: string, importOptions: ImportOptions) => {
+    const setFile = sourceId === DE_SOURCE_ID ? setDeFile : setProductFile;
+    setFile(prev => prev ? { ...prev, importOptions } : null);
+  };
+
+  // Workbooks with several sheets or banner rows above the header ask which data to use
+  const openSheetPicker = async (sourceId: string, file: File) => {
+    try {
+      const workbook = await readWorkbook(file);
+      if (needsSheetSelection(workbook)) {
+        setSheetPicker({ sourceId, file, workbook });
         return true;
-      } catch {
-        return false;
       }
-    };
+    } catch (error) {
+      console.error(`Error reading workbook ${file.name}:`, error);
+      showNotification(`Could not read ${file.name}`, 'error');
+    }
+    return false;
+  };
+
+  const handleSheetsSelected = (excel: ExcelImportOptions) => {
+    if (!sheetPicker) return;
+    const { sourceId, file } = sheetPicker;
+    setSheetPicker(null);
+
+    if (sourceId === DE_SOURCE_ID || sourceId === PRODUCT_SOURCE_ID) {
+      applyImportOptions(sourceId, { excel });
+    } else {
+      loadExtraSource(sourceId, file, { excel });
+    }
+  };
+
+  // Settings are remembered per role, so next week's file from the same supplier imports without asking
+  const csvSettingId = (role: SourceRole) => `csvImport:${role}`;
+
+  // Resolves to the settings to import with, or null when the dialog has to ask first
+  const prepareCsvImport = async (sourceId: string, role: SourceRole, file: File): Promise<CsvImportOptions | null> => {
+    const bytes = await readFileStart(file);
+    const detected = sniffCsv(bytes);
+    const remembered = await db.getSetting<CsvImportOptions>(csvSettingId(role));
+    if (remembered && sameCsvOptions(remembered, detected)) return remembered;
+    setCsvDialog({ sourceId, role, file, bytes, detected, initial: remembered || detected });
+    return null;
+  };
+
+  const handleCsvOptionsSelected = (csv: CsvImportOptions) => {
+    if (!csvDialog) return;
+    const { sourceId, role, file } = csvDialog;
+    setCsvDialog(null);
+    db.saveSetting(csvSettingId(role), csv).catch(error => {
+      console.error('Error saving CSV import settings:', error);
+    });
+
+    if (sourceId === DE_SOURCE_ID || sourceId === PRODUCT_SOURCE_ID) {
+      applyImportOptions(sourceId, { csv });
+    } else {
+      loadExtraSource(sourceId, file, { csv });
+    }
+  };
+
+  const overriddenCells = React.useMemo(
+    () => new Set(overrides.map(override => overrideKey(override.sku, override.column))),
+    [overrides]
+  );
+
+  const mergedSkus = React.useMemo(() => new Set(mergeReport ? getMergedSkus(mergeReport) : []), [mergeReport]);
+
+  // Moves the overrides of the changed cells from one side of each change to the other and writes
+  // the cells into the merged rows
+  const writeOverrides = (changes: OverrideChange[], direction: 'apply' | 'revert') => {
+    const cells = changes.map(change => ({
+      sku: change.sku,
+      column: change.column,
+      from: direction === 'apply' ? change.before : change.after,
+      to: direction === 'apply' ? change.after : change.before,
+    }));
+    const changedKeys = new Set(cells.map(cell => overrideKey(cell.sku, cell.column)));
+    setOverrides(prev => [
+      ...prev.filter(override => !changedKeys.has(overrideKey(override.sku, override.column))),
+      ...cells.flatMap(cell => (cell.to ? [cell.to] : [])),
+    ]);
+
+    if (!projectId) return;
+    if (mergedTable) {
+      const edits = new Map<string, DataRow>();
+      cells.forEach(({ sku, column, from, to }) => {
+        edits.set(sku, { ...edits.get(sku), [column]: to ? to.value : from?.original });
+      });
+      // The grid and the checks read the rows again once the edits are written
+      db.updateRows(projectId, MERGED_DATA_ID, row => {
+        const sku = rowSku(row);
+        const edited = sku === null ? undefined : edits.get(sku);
+        return edited ? { ...row, ...edited } : null;
+      })
+        .then(() => setRowsVersion(prev => prev + 1))
+        .catch(error => {
+          console.error('Error saving edited rows:', error);
+        });
+    }
+
+    cells.forEach(({ sku, column, to }) => {
+      (to ? db.saveOverride(projectId, to) : db.deleteOverride(projectId, sku, column)).catch(error => {
+        console.error('Error saving manual edit:', error);
+      });
+    });
+  };
+
+  // The changes are undone and redone together, e.g. all cells of one image reorder
+  const recordOverrideChanges = (changes: OverrideChange[]) => {
+    if (changes.length === 0) return;
+    writeOverrides(changes, 'apply');
+    setOverrideHistory(prev => ({ undo: [...prev.undo, changes], redo: [] }));
+  };
+
+  // The change that sets a merged cell to the value, or null when the cell already holds it
+  const getOverrideChange = (row: DataRow, sku: string, column: string, value: string): OverrideChange | null => {
+    const current = overrides.find(override => override.sku === sku && override.column === column) || null;
+    if (value === String(row[column] ?? '')) return null;
+
+    const original = current ? current.original : row[column];
+    // Typing the merged value back is the same as reverting the edit
+    const after = value === String(original ?? '')
+      ? null
+      : { sku, column, value, original, updatedAt: Date.now() };
+    return { sku, column, before: current, after };
+  };
+
+  const handleCellEdit = (row: DataRow, column: string, value: string) => {
+    const sku = rowSku(row);
+    if (sku === null) {
+      showNotification('Rows without a SKU cannot be edited', 'error');
+      return;
+    }
+    const change = getOverrideChange(row, sku, column, value);
+    if (change) recordOverrideChanges([change]);
+  };
+
+  // Image reorders are kept as manual edits of the image columns
+  const handleImageChanges = (row: DataRow, changes: ImageChanges) => {
+    const sku = rowSku(row);
+    if (sku === null) {
+      showNotification('Rows without a SKU cannot be edited', 'error');
+      return;
+    }
+    recordOverrideChanges(
+      Object.entries(changes)
+        .map(([column, value]) => getOverrideChange(row, sku, column, value))
+        .filter((change): change is OverrideChange => change !== null)
+    );
+  };
+
+  const handleRevertOverride = (override: CellOverride) => {
+    recordOverrideChanges([{ sku: override.sku, column: override.column, before: override, after: null }]);
+  };
+
+  const handleUndo = () => {
+    const changes = overrideHistory.undo[overrideHistory.undo.length - 1];
+    if (!changes) return;
+    writeOverrides(changes, 'revert');
+    setOverrideHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, changes] }));
+  };
+
+  const handleRedo = () => {
+    const changes = overrideHistory.redo[overrideHistory.redo.length - 1];
+    if (!changes) return;
+    writeOverrides(changes, 'apply');
+    setOverrideHistory(prev => ({ undo: [...prev.undo, changes], redo: prev.redo.slice(0, -1) }));
+  };
+
+  // Transforms rerun on a fresh merge, so removing one brings the merged values back
+  const handleTransformsChange = (next: DataTransform[]) => {
+    setTransforms(next);
+    if (isMerged) mergeFiles(acceptedMatches, next);
+  };
+
+  // Compacting every product is a transform, so it keeps applying to future merges
+  const handleCompactAllImages = (dropDuplicates: boolean) => {
+    const existing = transforms.find(transform => transform.type === 'compactImages');
+    handleTransformsChange(existing
+      ? transforms.map(transform => (transform === existing ? { ...existing, enabled: true, dropDuplicates } : transform))
+      : [...transforms, { id: crypto.randomUUID(), type: 'compactImages', enabled: true, dropDuplicates }]);
+    showNotification('Added a Compact images transform; it runs after every merge', 'info');
+  };
+
+  // Previews run while the draft is edited, so they skip the progress overlay
+  const previewDraftTransform = (transform: DataTransform, limit: number) =>
+    runInWorker({ type: 'previewTransform', table: { projectId: projectId!, fileId: MERGED_DATA_ID }, transform, limit }).promise;
+
+  const readGalleryRows = (offset: number, limit: number, issuesOnly: boolean) =>
+    readRows(projectId!, MERGED_DATA_ID, issuesOnly ? imageSummary?.withIssues ?? [] : tabQuery.positions)(offset, limit);
+
+  const renderTable = (
+    data: DataRow[] | StoredView | null | undefined,
+    { id, exportName, showActionButtons = true, editable = false }: TableOptions
+  ) => {
+    if (!data) return null;
+    const totalCount = Array.isArray(data) ? data.length : data.file.rowCount ?? 0;
+    if (totalCount === 0) return null;
+
+    const grid = getGridState(id);
+    // Rows held in memory are queried here; stored rows are found by the worker and read a page at a time
+    const rows = Array.isArray(data) ? getTableRows(id, data) : undefined;
+    const stored = Array.isArray(data) ? null : data;
+    const headers = Array.isArray(data) ? getHeaders(data) : data.file.headers || [];
+    const positions = stored ? stored.query.positions : null;
+    const rowCount = rows ? rows.length : positions ? positions.length : stored?.query.active ? 0 : totalCount;
     
     return (
       <div className="relative">
-        <div className="overflow-x-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg max-h-[600px]">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                {headers.map((header, index) => (
-                  <th
-                    key={header}
-                    className="sticky top-0 bg-gray-50 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-normal min-w-[200px] max-w-[300px]"
-                  >
-                    {header}
-                  </th>
-                ))}
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {paginatedData.map((row, index) => (
-                <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                  {headers.map((header) => {
-                    const content = row[header];
-                    const isUrlContent = typeof content === 'string' && isUrl(content);
-                    
-                    return (
-                    <td 
-                      key={header} 
-                      className="px-6 py-4 text-sm text-gray-500 min-w-[200px] max-w-[300px]"
-                    >
-                      <div className={`${header.toLowerCase() === 'description' ? 
-                        'whitespace-pre-wrap break-words max-w-[500px] max-h-[200px] overflow-auto' : 
-                        'truncate'}`}>
-                        {isUrlContent ? (
-                          <a 
-                            href={content}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 hover:text-blue-800"
-                            title={typeof content === 'string' ? content : ''}
-                          >
-                            {new URL(content).pathname}
-                          </a>
-                        ) : (
-                          <span title={typeof content === 'string' ? content : ''}>
-                            {typeof content === 'string' && content.length > 50 
-                              ? `${content.slice(0, 50)}...` 
-                              : content}
-                          </span>
-                        )}
-                      </div>
-                    </td>
-                  )})}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-        
-        {/* Pagination */}
-        <div className="flex items-center justify-between border-t border-gray-200 bg-white px-4 py-3 sm:px-6">
-          <div className="flex flex-1 justify-between sm:hidden">
-            <button
-              onClick={() => handlePageChange(currentPage - 1)}
-              disabled={currentPage === 1}
-              className={`relative inline-flex items-center rounded-md px-4 py-2 text-sm font-medium ${
-                currentPage === 1
-                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                  : 'bg-white text-gray-700 hover:bg-gray-50'
-              }`}
-            >
-              Previous
-            </button>
-            <button
-              onClick={() => handlePageChange(currentPage + 1)}
-              disabled={currentPage === totalPages}
-              className={`relative ml-3 inline-flex items-center rounded-md px-4 py-2 text-sm font-medium ${
-                currentPage === totalPages
-                  ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                  : 'bg-white text-gray-700 hover:bg-gray-50'
-              }`}
-            >
-              Next
-            </button>
-          </div>
-          <div className="hidden sm:flex sm:flex-1 sm:items-center sm:justify-between">
-            <div>
-              <p className="text-sm text-gray-700">
-                Showing <span className="font-medium">{startIndex + 1}</span> to{' '}
-                <span className="font-medium">
-                  {Math.min(startIndex + rowsPerPage, data.length)}
-                </span>{' '}
-                of <span className="font-medium">{data.length}</span> results
-              </p>
-            </div>
-            <div>
-              <nav className="isolate inline-flex -space-x-px rounded-md shadow-sm" aria-label="Pagination">
-                <button
-                  onClick={() => handlePageChange(Math.max(1, currentPage - 1))}
-                  disabled={currentPage === 1}
-                  className={`relative inline-flex items-center rounded-l-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 ${
-                    currentPage === 1 ? 'cursor-not-allowed' : 'hover:bg-gray-50'
-                  }`}
-                >
-                  <span className="sr-only">Previous</span>
-                  <ChevronLeft className="h-5 w-5" aria-hidden="true" />
-                </button>
-                <span className="relative inline-flex items-center px-4 py-2 text-sm font-semibold text-gray-700 ring-1 ring-inset ring-gray-300">
-                  Page {currentPage} of {totalPages}
-                </span>
-                <button
-                  onClick={() => handlePageChange(Math.min(totalPages, currentPage + 1))}
-                  disabled={currentPage === totalPages}
-                  className={`relative inline-flex items-center rounded-r-md px-2 py-2 text-gray-400 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 focus:z-20 focus:outline-offset-0 ${
-                    currentPage === totalPages ? 'cursor-not-allowed' : 'hover:bg-gray-50'
-                  }`}
-                >
-                  <span className="sr-only">Next</span>
-                  <ChevronRight className="h-5 w-5" aria-hidden="true" />
-                </button>
-              </nav>
-            </div>
-          </div>
-        </div>
+        <GridToolbar
+          search={grid.search}
+          onSearch={(search) => updateGrid(id, { search })}
+          showFilters={grid.showFilters}
+          activeFilterCount={countActiveFilters(grid)}
+          onToggleFilters={() => updateGrid(id, { showFilters: !grid.showFilters })}
+          onClearFilters={() => updateGrid(id, { filters: {} })}
+          columns={getVisibleColumns(headers, { ...grid, hiddenColumns: [] })}
+          hiddenColumns={grid.hiddenColumns.filter(column => headers.includes(column))}
+          onToggleColumn={(column, visible) => updateGrid(id, {
+            hiddenColumns: visible
+              ? grid.hiddenColumns.filter(hidden => hidden !== column)
+              : [...grid.hiddenColumns, column],
+          })}
+          onMoveColumn={(column, offset) => updateGrid(id, { columnOrder: moveColumn(headers, grid, column, offset) })}
+          onResetColumns={() => updateGrid(id, { hiddenColumns: [], columnOrder: [] })}
+          rowCount={rowCount}
+          totalCount={stored?.skus ? stored.skus.length : totalCount}
+          onExport={(format) => {
+            if (!Array.isArray(data)) {
+              exportStoredRows(data.file.id, { query: grid, skus: data.skus }, getVisibleColumns(headers, grid), format, exportName);
+              return;
+            }
+            const exportRows = getExportRows(id, data);
+            if (format === 'csv') {
+              downloadCSV(exportRows, exportName);
+            } else {
+              downloadXLSX(exportRows, exportName);
+            }
+          }}
+        />
+        <DataGrid
+          key={id}
+          columns={getVisibleColumns(headers, grid)}
+          rowCount={rowCount}
+          rows={rows}
+          loadRows={stored && projectId ? readRows(projectId, stored.file.id, positions) : undefined}
+          isLoading={Boolean(stored?.query.active && !positions)}
+          resetKey={`${JSON.stringify([grid.sort, grid.filters, grid.search])}:${totalCount}`}
+          dataKey={rows ?? positions ?? `${stored?.file.savedAt}:${rowsVersion}`}
+          sort={grid.sort}
+          onSort={(column) => updateGrid(id, { sort: nextSort(grid.sort, column) })}
+          showFilters={grid.showFilters}
+          filters={grid.filters}
+          onFilterChange={(column, filter) => setColumnFilter(id, column, filter)}
+          onEdit={editable ? handleCellEdit : undefined}
+          isEdited={editable ? (row, column) => {
+            const sku = rowSku(row);
+            return sku !== null && overriddenCells.has(overrideKey(sku, column));
+          } : undefined}
+        />
 
         {/* Add Merge Files and Download Buttons - Conditionally render based on prop */} 
-        {showActionButtons && activeTab !== 'merged' && isProcessed && !isMerged && (
+        {showActionButtons && activeTab !== 'merged' && isProcessed && (
           <div className="mt-4 flex justify-center">
             <button
-              onClick={mergeFiles}
+              onClick={requestMerge}
               className="py-3 px-8 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
             >
-              Merge Files
+              {isMerged ? 'Re-run Merge' : 'Merge Files'}
             </button>
           </div>
         )}
         
-        {showActionButtons && activeTab === 'merged' && mergedData && mergedData.length > 0 && (
+        {showActionButtons && activeTab === 'merged' && Boolean(mergedTable?.rowCount) && (
           <div className="flex flex-wrap gap-4 mt-4 justify-end">
             <button
-              onClick={() => extractColumns(mergedData)}
+              onClick={extractColumns}
               disabled={isExtracting}
               className={`flex items-center gap-2 py-2 px-4 rounded-lg font-medium transition-colors ${
                 isMerged && !isExtracting
@@ -683,296 +1518,132 @@ function App() {
     );
   };
 
-  const extractColumns = async (data: any[]) => {
-    if (!data || data.length === 0) {
-      return;
-    }
-
+  // One workbook per translatable column of the rows the merged table shows, in a zip; row_index is
+  // the position in the merged data, also when the table is sorted or filtered, so the coverage check
+  // can tell whether a translated row still lines up with its SKU
+  const extractColumns = async () => {
+    if (!projectId) return;
     setIsExtracting(true);
     
     try {
-      const columnsToExtract = ['Subcategory', 'Category', 'Title', 'description'];
-      const availableColumns = Object.keys(data[0]);
-      
-      // Check if all required columns exist
-      const missingColumns = columnsToExtract.filter(col => !availableColumns.includes(col));
-      if (missingColumns.length > 0) {
-        return;
-      }
-      
-      // Create a new ZIP file
-      const zip = new JSZip();
-      
-      // Add each column's data to the ZIP
-      for (const column of columnsToExtract) {
-        try {
-          // Handle description column differently - split into multiple files
-          if (column === 'description') {
-            // Chunk size for description column (600 rows per file)
-            const ROWS_PER_FILE = 600;
-            const totalChunks = Math.ceil(data.length / ROWS_PER_FILE);
-            
-            for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
-              // Calculate chunk start and end
-              const start = chunkIndex * ROWS_PER_FILE;
-              const end = Math.min(start + ROWS_PER_FILE, data.length);
-              const chunk = data.slice(start, end);
-              
-              // Create a new workbook for this chunk
-              const workbook = new ExcelJS.Workbook();
-              const worksheet = workbook.addWorksheet('Data');
-              
-              // Add headers (include SKU and index as identifiers)
-              worksheet.columns = [
-                { header: 'row_index', key: 'row_index' },
-                { header: 'SKU', key: 'SKU' },
-                { header: column, key: column }
-              ];
-              
-              // Add rows with identifiers
-              chunk.forEach((row, localIndex) => {
-                const globalIndex = start + localIndex; // Original index in full dataset
-                worksheet.addRow({
-                  row_index: globalIndex,
-                  SKU: row.SKU || '',
-                  [column]: row[column] || ''
-                });
-              });
-              
-              // Generate buffer
-              const buffer = await workbook.xlsx.writeBuffer();
-              zip.file(`${column.toLowerCase()}_${chunkIndex + 1}_of_${totalChunks}.xlsx`, buffer);
-            }
-          } else {
-            // Handle other columns normally
-            const extractedData = data.map((row, index) => ({
-              row_index: index,
-              SKU: row.SKU || '',
-              [column]: row[column] || ''
-            }));
-            
-            // Create a new workbook for each column
-            const workbook = new ExcelJS.Workbook();
-            const worksheet = workbook.addWorksheet('Data');
-            
-            // Add header
-            worksheet.columns = [
-              { header: 'row_index', key: 'row_index' },
-              { header: 'SKU', key: 'SKU' },
-              { header: column, key: column }
-            ];
-            
-            // Add rows
-            extractedData.forEach(row => {
-              worksheet.addRow(row);
-            });
-            
-            // Generate buffer
-            const buffer = await workbook.xlsx.writeBuffer();
-            zip.file(`${column.toLowerCase()}.xlsx`, buffer);
-          }
-        } catch (error) {
-          console.error(`Error processing ${column}:`, error);
-        }
-      }
-      
-      // Generate and download the ZIP file
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(zipBlob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = 'extracted_columns.zip';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      
+      const zip = await runWorkerTask('Extracting columns...', {
+        type: 'extractColumns',
+        table: { projectId, fileId: MERGED_DATA_ID },
+        selection: { query: getGridState(MERGED_DATA_ID) },
+      });
+      // Null when the merged data lacks one of the columns
+      if (zip) downloadBlob(zip, 'extracted_columns.zip');
     } catch (error) {
+      if (error instanceof TaskCancelledError) return;
       console.error('Error during extraction:', error);
     } finally {
       setIsExtracting(false);
     }
   };
 
-  const handleTranslatedFileChange = async (event: React.ChangeEvent<HTMLInputElement>, columnName: string) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
-    // Define column header translations for each language
-    const columnTranslations = {
-      'Subcategory': ['subkategorija', 'underkategori', 'underkategori', 'alaluokka', 'underkategori'],
-      'Category': ['kategorija', 'kategori', 'kategori', 'luokka', 'kategori'],
-      'Title': ['pavadinimas', 'titel', 'titel', 'otsikko', 'tittel'],
-      'description': ['aprašymas', 'Beskrivning', 'beskrivelse', 'kuvaus', 'beskrivelse']
-    };
-
+  // Reads the files and asks to confirm the detected language and column; files that leave either open
+  // or contradict themselves are refused, and nothing is stored until the upload is confirmed
+  const handleTranslatedFileChange = async (files: File[], columnName: string) => {
     try {
       setIsLoading(true);
-      let allRows: any[] = [];
-      let skippedRows = 0;
-
-      // Process all selected files
-      for (let i = 0; i < files.length; i++) {
-        const fileData = await parseExcelFile(files[i]);
-        
-        // --- Improved Data Standardization Step --- 
-        const standardizedData = fileData.map(row => {
-          const keys = Object.keys(row);
-          
-          // Find row_index and SKU columns (these should remain in English)
-          const rowIndexKey = keys.find(k => k.toLowerCase() === 'row_index') || keys[0];
-          const skuKey = keys.find(k => k.toLowerCase() === 'sku') || keys[1];
-
-          // Find the translated data column using the translations array
-          const possibleTranslations = columnTranslations[columnName as keyof typeof columnTranslations] || [];
-          const dataKey = keys.find(k => 
-            possibleTranslations.includes(k.toLowerCase()) || 
-            k.toLowerCase() === columnName.toLowerCase()
-          ) || keys[2];
-
-          // Get values using found keys
-          const rowIndex = row[rowIndexKey];
-          const sku = row[skuKey];
-          const value = row[dataKey];
-
-          // Log the mapping for debugging
-          console.log(`File ${i + 1}, Row mapping:`, {
-            foundRowIndexKey: rowIndexKey,
-            foundSkuKey: skuKey,
-            foundDataKey: dataKey,
-            availableKeys: keys,
-            value: value
-          });
-
-          // Only skip if we can't find any of the essential data
-          if (value === undefined) {
-            console.warn(`Skipping row due to missing translated value in ${files[i].name}:`, {
-              rowIndex,
-              sku,
-              value,
-              keys,
-              row
-            });
-            skippedRows++;
-            return null;
-          }
-
-          // Use default values for missing row_index or SKU
-          const processedRowIndex = rowIndex === undefined ? '0' : rowIndex;
-          const processedSku = sku === undefined ? '' : sku;
-
-          return {
-            row_index: processedRowIndex,
-            SKU: processedSku,
-            [columnName]: value
-          };
-        }).filter(row => row !== null);
-
-        allRows = [...allRows, ...standardizedData];
-      }
-
-      // Sort combined data if multiple files were processed
-      if (files.length > 1) {
-        allRows.sort((a, b) => {
-          const indexA = typeof a.row_index === 'string' ? parseInt(a.row_index, 10) : a.row_index;
-          const indexB = typeof b.row_index === 'string' ? parseInt(b.row_index, 10) : b.row_index;
-          return (isNaN(indexA) ? Infinity : indexA) - (isNaN(indexB) ? Infinity : indexB);
-        });
+      const parsed: { name: string; rows: DataRow[] }[] = [];
+      for (const file of files) {
+        parsed.push({ name: file.name, rows: await runWorkerTask(`Reading ${file.name}...`, { type: 'parse', file }) });
       }
-
-      // Add validation to ensure we have data
-      if (allRows.length === 0) {
-        throw new Error('No valid rows were processed. Please check the file format and column headers.');
-      }
-
-      // Create a map using SKU as the key instead of row_index
-      const rowsBySku = new Map();
-      allRows.forEach(row => {
-        if (row.SKU) {
-          rowsBySku.set(row.SKU, row);
-        }
-      });
-
-      setTranslatedFiles(prev => ({
-        ...prev,
-        [columnName]: Array.from(rowsBySku.values())
-      }));
-
-      // Log for debugging
-      const fileCount = files.length;
-      const message = `Successfully processed ${fileCount} file(s) for ${columnName}.\nTotal rows: ${allRows.length}\nUnique SKUs: ${rowsBySku.size}\nSkipped rows: ${skippedRows}\nFirst few values: ${Array.from(rowsBySku.values()).slice(0, 3).map(row => row[columnName]).join(', ')}...`;
-      console.log(message);
-
+      setPendingTranslation(buildTranslationImport(parsed, columnName));
     } catch (error) {
+      if (error instanceof TaskCancelledError) return;
       console.error(`Error processing translated ${columnName} files:`, error);
+      showNotification(error instanceof Error ? error.message : `Could not read the ${columnName} translations`, 'error');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const replaceColumnsWithTranslations = () => {
-    if (!mergedData) {
+  const confirmTranslationUpload = ({ language, column, rows }: TranslationImport) => {
+    setTranslations(prev => ({
+      ...prev,
+      [language]: { ...prev[language], [column]: rows },
+    }));
+    setTranslationLanguage(language);
+    setPendingTranslation(null);
+  };
+
+  // Uploads stay with their language after the table is generated, so its progress keeps showing
+  const replaceColumnsWithTranslations = async () => {
+    const language = translationLanguage;
+    const translatedColumns = translations[language];
+    if (!mergedStore || !coverageTask) {
       return;
     }
-    if (Object.keys(translatedFiles).length === 0) {
+    if (!translatedColumns || Object.keys(translatedColumns).length === 0) {
       return;
     }
 
     setIsReplacingColumns(true);
 
     try {
-      // Create a deep copy to avoid modifying the original mergedData
-      const updatedData = JSON.parse(JSON.stringify(mergedData));
-      const columnsToReplace = Object.keys(translatedFiles);
-
-      // Create a map of SKU to row for each translated column
-      const translationMaps = new Map();
-      columnsToReplace.forEach(columnName => {
-        const translatedColumnData = translatedFiles[columnName];
-        const skuMap = new Map();
-        
-        translatedColumnData.forEach(row => {
-          if (row.SKU && row[columnName] !== undefined) {
-            skuMap.set(row.SKU, row[columnName]);
-          }
-        });
-        
-        translationMaps.set(columnName, skuMap);
-      });
-
-      // Replace values in the copied data using SKU matching
-      updatedData.forEach((row: any) => {
-        if (row.SKU) {
-          columnsToReplace.forEach(columnName => {
-            const translationMap = translationMaps.get(columnName);
-            if (translationMap && translationMap.has(row.SKU)) {
-              row[columnName] = translationMap.get(row.SKU);
-            }
-          });
-        }
-      });
-
-      // Set the new state with the translated data
-      setTranslatedMergedData(updatedData);
-
-      // Clear the uploaded translated files
-      setTranslatedFiles({});
+      const coverage = translationCoverage ?? await runWorkerTask('Checking translations...', coverageTask);
+      const issueCount = countCoverageIssues(coverage);
+      if (issueCount > 0 && !window.confirm(`The coverage check found ${issueCount} issues. Generate the table anyway?`)) {
+        return;
+      }
 
-      // Reset file input elements
-      document.querySelectorAll('input[type="file"].translated-file-input').forEach((input) => {
-        (input as HTMLInputElement).value = '';
+      const fileId = translatedTableId(language);
+      const table = await runWorkerTask('Applying translations...', {
+        type: 'applyTranslations',
+        table: mergedStore,
+        translatedColumns,
+        skuRules: mergeProfile.skuRules,
+        storeAs: { projectId: mergedStore.projectId, fileId },
       });
 
+      setTranslatedTables(prev => ({
+        ...prev,
+        [language]: { id: fileId, name: `translated_data_${language}`, type: 'json', size: 0, ...table, savedAt: Date.now() },
+      }));
     } catch (error) {
+      if (error instanceof TaskCancelledError) return;
       console.error('Error applying translations:', error);
-      setTranslatedMergedData(null);
+      clearTranslatedTable(language);
     } finally {
       setIsReplacingColumns(false);
     }
   };
 
-  const clearTranslatedTable = () => {
-    setTranslatedMergedData(null);
+  const clearTranslatedTable = (language: TranslationLanguage) => {
+    setTranslatedTables(prev => {
+      const next = { ...prev };
+      delete next[language];
+      return next;
+    });
+    if (projectId) db.deleteFile(projectId, translatedTableId(language));
+  };
+
+  const clearTranslationUploads = (language: TranslationLanguage) => {
+    setTranslations(prev => {
+      const next = { ...prev };
+      delete next[language];
+      return next;
+    });
+  };
+
+  // One workbook with every language that has uploads next to the merged columns
+  const downloadAllTranslations = async () => {
+    if (!mergedStore) return;
+    try {
+      const workbook = await runWorkerTask('Combining translations...', {
+        type: 'combineTranslations',
+        table: mergedStore,
+        translations,
+        skuRules: mergeProfile.skuRules,
+      });
+      downloadBlob(workbook, 'translated_data_all_languages.xlsx');
+    } catch (error) {
+      if (error instanceof TaskCancelledError) return;
+      console.error('Error combining translations:', error);
+      showNotification('Could not combine the translations', 'error');
+    }
   };
 
   return (
@@ -988,18 +1659,60 @@ function App() {
           {notification.message}
         </div>
       )}
-      {isLoading && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 flex flex-col items-center">
-            <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-            <p className="mt-4 text-gray-700 font-medium">
-              {isMerged ? 'Merging Files...' : 'Processing Files...'}
-            </p>
-          </div>
-        </div>
+      {duplicateGroups && (
+        <DuplicatesPanel
+          groups={duplicateGroups}
+          resolutions={duplicateResolutions}
+          onChange={setDuplicateResolutions}
+          onConfirm={confirmDuplicateResolutions}
+          onCancel={() => setDuplicateGroups(null)}
+        />
+      )}
+      {sheetPicker && (
+        <SheetPicker
+          fileName={sheetPicker.file.name}
+          workbook={sheetPicker.workbook}
+          onConfirm={handleSheetsSelected}
+          onCancel={() => setSheetPicker(null)}
+        />
+      )}
+      {pendingTranslation && (
+        <TranslationImportDialog
+          upload={pendingTranslation}
+          onConfirm={confirmTranslationUpload}
+          onCancel={() => setPendingTranslation(null)}
+        />
+      )}
+      {csvDialog && (
+        <CsvImportDialog
+          fileName={csvDialog.file.name}
+          bytes={csvDialog.bytes}
+          detected={csvDialog.detected}
+          initial={csvDialog.initial}
+          onConfirm={handleCsvOptionsSelected}
+          onCancel={() => setCsvDialog(null)}
+        />
+      )}
+      {activeTask ? (
+        <ProgressOverlay label={activeTask.label} percent={activeTask.percent} onCancel={activeTask.cancel} />
+      ) : isLoading && (
+        <ProgressOverlay label={isMerged ? 'Merging Files...' : 'Processing Files...'} />
       )}
       <div className="bg-white rounded-xl shadow-lg p-8 w-full max-w-6xl">
-        <div className="flex justify-end mb-6">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+          {currentProject ? (
+            <ProjectBar
+              projects={projects}
+              current={currentProject}
+              onSelect={switchProject}
+              onCreate={handleCreateProject}
+              onRename={handleRenameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+              onExport={handleExportProject}
+              onImport={handleImportProject}
+            />
+          ) : <div />}
           <button
             onClick={handleClear}
             className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-red-600 transition-colors rounded-lg hover:bg-red-50"
@@ -1107,6 +1820,14 @@ function App() {
           </div>
         </div>
 
+        <SourceFilesPanel
+          sources={extraSources}
+          onAdd={addExtraSource}
+          onUpdate={updateExtraSource}
+          onFileSelected={handleExtraSourceFile}
+          onRemove={removeExtraSource}
+        />
+
         <div className="mt-6 flex justify-center">
           {!isProcessed && (
             <button
@@ -1122,6 +1843,86 @@ function App() {
             </button>
           )}
         </div>
+        {isProcessed && (
+          <div className="mt-8">
+            <button
+              onClick={() => setShowValidation(prev => !prev)}
+              className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-blue-600"
+            >
+              {showValidation ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              Validation
+              {validationIssues ? (
+                <span className={validationErrorCount > 0 ? 'text-red-600' : validationWarningCount > 0 ? 'text-amber-600' : 'text-green-600'}>
+                  ({validationErrorCount} errors, {validationWarningCount} warnings)
+                </span>
+              ) : (
+                <span className="text-gray-500">(checking...)</span>
+              )}
+            </button>
+            {showValidation && (
+              <div className="mt-4">
+                <ValidationPanel
+                  issues={validationIssues || []}
+                  warningsAcknowledged={warningsAcknowledged}
+                  onAcknowledgeWarnings={setWarningsAcknowledged}
+                  onExport={handleValidationExport}
+                />
+              </div>
+            )}
+          </div>
+        )}
+        {isProcessed && (
+          <div className="mt-8">
+            <button
+              onClick={() => setShowMapping(prev => !prev)}
+              className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-blue-600"
+            >
+              {showMapping ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              Merge Profile ({mergeProfile.name})
+            </button>
+            {showMapping && (
+              <div className="mt-4">
+                <MappingEditor
+                  profile={mergeProfile}
+                  profiles={mergeProfiles}
+                  sources={mappingSources}
+                  sourceOrder={getSourceOrder(mergeProfile, mergeSources)}
+                  onChange={setMergeProfile}
+                  onSave={handleSaveProfile}
+                  onSelect={handleSelectProfile}
+                  onDelete={handleDeleteProfile}
+                />
+                <h4 className="mt-6 mb-2 text-sm font-medium text-gray-700">SKU Normalization Rules</h4>
+                <SkuRulesEditor
+                  rules={mergeProfile.skuRules}
+                  preview={skuRulesPreview}
+                  onChange={(skuRules) => setMergeProfile(prev => ({ ...prev, skuRules }))}
+                />
+                <h4 className="mt-6 mb-2 text-sm font-medium text-gray-700">Description Template</h4>
+                <DescriptionTemplateEditor
+                  template={mergeProfile.description}
+                  sources={mappingSources}
+                  sourceOrder={getSourceOrder(mergeProfile, mergeSources)}
+                  samples={descriptionSamples || []}
+                  onChange={(description) => setMergeProfile(prev => ({ ...prev, description }))}
+                  onReset={() => setMergeProfile(prev => ({ ...prev, description: DEFAULT_DESCRIPTION_TEMPLATE }))}
+                />
+                <h4 className="mt-6 mb-2 text-sm font-medium text-gray-700">Category Mapping</h4>
+                <CategoryMappingPanel
+                  settings={mergeProfile.categories}
+                  pairs={categoryPairs || []}
+                  onChange={(categories) => setMergeProfile(prev => ({ ...prev, categories }))}
+                  onImportTaxonomy={handleImportTaxonomy}
+                />
+                <h4 className="mt-6 mb-2 text-sm font-medium text-gray-700">Measurements</h4>
+                <MeasurementSettingsEditor
+                  settings={mergeProfile.measurements}
+                  onChange={(measurements) => setMergeProfile(prev => ({ ...prev, measurements }))}
+                />
+              </div>
+            )}
+          </div>
+        )}
         {isProcessed && (
           <div className="mt-8" ref={tabsRef}>
             <div className="border-b border-gray-200">
@@ -1152,6 +1953,22 @@ function App() {
                   <TableIcon className="w-4 h-4" />
                   Product Information Data
                 </button>
+                {extraSources.filter(source => source.rowCount !== undefined).map(source => (
+                  <button
+                    key={source.id}
+                    onClick={() => setActiveTab(`source:${source.id}`)}
+                    className={`
+                      flex items-center gap-2 py-4 px-1 border-b-2 font-medium text-sm
+                      ${activeTab === `source:${source.id}`
+                        ? 'border-blue-500 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }
+                    `}
+                  >
+                    <TableIcon className="w-4 h-4" />
+                    {source.name}
+                  </button>
+                ))}
                 {isMerged && (
                   <button
                     onClick={() => setActiveTab('merged')}
@@ -1167,117 +1984,189 @@ function App() {
                     Merged Data
                   </button>
                 )}
+                {isMerged && mergeDiff && (
+                  <button
+                    onClick={() => setActiveTab('diff')}
+                    className={`
+                      flex items-center gap-2 py-4 px-1 border-b-2 font-medium text-sm
+                      ${activeTab === 'diff'
+                        ? 'border-blue-500 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }
+                    `}
+                  >
+                    <TableIcon className="w-4 h-4" />
+                    Changes
+                  </button>
+                )}
               </nav>
             </div>
-            <div className="mt-4 overflow-hidden">
+            <div className="mt-4">
               {activeTab === 'de' 
-                ? renderTable(deFile?.content) 
+                ? renderTable(tabView, { id: DE_SOURCE_ID, exportName: 'de_file' }) 
                 : activeTab === 'product' 
-                  ? renderTable(productFile?.content)
-                  : mergedData && renderTable(mergedData)
+                  ? renderTable(tabView, { id: PRODUCT_SOURCE_ID, exportName: 'product_information' })
+                  : activeTab.startsWith('source:')
+                    ? activeSource && (
+                      <React.Fragment key={activeSource.id}>
+                        {renderTable(tabView, { id: activeSource.id, exportName: activeSource.id })}
+                      </React.Fragment>
+                    )
+                  : activeTab === 'diff'
+                    ? mergeDiff && mergedTable && (
+                      <DiffView
+                        diff={mergeDiff}
+                        baselineMergedAt={baseline?.savedAt}
+                        onExport={handleDeltaExport}
+                        onSetBaseline={saveBaseline}
+                      />
+                    )
+                  : mergedTable && (
+                    <>
+                      {mergeReport && (
+                        <MergeReportPanel
+                          report={mergeReport}
+                          activeFilter={reportFilter}
+                          onFilter={handleReportFilter}
+                          onExport={handleReportExport}
+                        />
+                      )}
+                      {mergeReport && (mergeReport.deOnly.length > 0 || mergeReport.productOnly.length > 0) && (
+                        <MatchReview
+                          candidates={matchCandidates || []}
+                          applied={mergeReport.secondaryMatches}
+                          settings={mergeProfile.matching}
+                          onSettingsChange={(matching) => setMergeProfile(prev => ({ ...prev, matching }))}
+                          onReject={handleRejectMatch}
+                          onApply={handleApplyMatches}
+                        />
+                      )}
+                      {mergeReport && reportFilter
+                        ? renderTable(isRowCategory(reportFilter) ? mergeReport[reportFilter] : tabView, {
+                          id: `report:${reportFilter}`,
+                          exportName: REPORT_FILE_NAMES[reportFilter],
+                        })
+                        : (
+                          <>
+                            <TransformsPanel
+                              transforms={transforms}
+                              rowCount={mergedTable.rowCount ?? 0}
+                              columns={mergedTable.headers || []}
+                              onPreview={previewDraftTransform}
+                              onChange={handleTransformsChange}
+                            />
+                            <OverridesPanel
+                              overrides={overrides}
+                              mergedSkus={mergedSkus}
+                              canUndo={overrideHistory.undo.length > 0}
+                              canRedo={overrideHistory.redo.length > 0}
+                              onUndo={handleUndo}
+                              onRedo={handleRedo}
+                              onRevert={handleRevertOverride}
+                            />
+                            <div className="flex gap-2 mb-3">
+                              {(['table', 'images'] as const).map(view => (
+                                <button
+                                  key={view}
+                                  onClick={() => setMergedView(view)}
+                                  className={`py-1 px-3 rounded-lg text-sm font-medium transition-colors ${
+                                    mergedView === view ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                                  }`}
+                                >
+                                  {view === 'table' ? 'Table' : 'Images'}
+                                </button>
+                              ))}
+                            </div>
+                            {mergedView === 'images' ? (
+                              <ImageGallery
+                                rowCount={tabQuery.positions ? tabQuery.positions.length : mergedTable.rowCount ?? 0}
+                                summary={tabQuery.active && !tabQuery.positions ? null : imageSummary}
+                                loadRows={readGalleryRows}
+                                dataKey={tabQuery.positions ?? rowsVersion}
+                                onChange={handleImageChanges}
+                                onCompactAll={handleCompactAllImages}
+                              />
+                            ) : renderTable(tabView, {
+                              id: MERGED_DATA_ID,
+                              exportName: 'merged_data',
+                              editable: true,
+                            })}
+                          </>
+                        )}
+                    </>
+                  )
               }
             </div>
           </div>
         )}
 
         {/* Translation imports section */}
-        {isMerged && mergedData && mergedData.length > 0 && (
+        {isMerged && Boolean(mergedTable?.rowCount) && (
           <div className="mt-8 border-t border-gray-200 pt-6" ref={translatedColumnsRef}>
             <h3 className="text-lg font-medium text-gray-900 mb-4">Import Translated Columns</h3>
             <p className="text-sm text-gray-500 mb-4">
-              Upload your translated Excel files to replace the original columns in the merged data.
-              Each file should have the same structure as the exported column files.
+              Upload your translated Excel files for each language to replace the original columns in the merged data.
+              Each file needs a SKU column; its language and translated column are detected from the headers and
+              the text, and shown for confirmation before they are used.
             </p>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-              {['Subcategory', 'Category', 'Title', 'description'].map((column) => (
-                <div key={column} className="border rounded-lg p-4">
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    {column} (Translated)
-                    {column === 'description' && (
-                      <span className="ml-2 text-xs text-gray-500">(Multiple files allowed)</span>
-                    )}
-                  </label>
-                  <div className={`border-2 border-dashed rounded-lg p-4 transition-colors ${
-                    translatedFiles[column] ? 'border-green-400 bg-green-50' : 'border-gray-300 hover:border-blue-400'
-                  } cursor-pointer`}
-                  onClick={() => document.getElementById(`translated-${column.toLowerCase()}`)?.click()}>
-                    <div className="flex flex-col items-center">
-                      <Upload className={`w-8 h-8 mb-2 ${
-                        translatedFiles[column] ? 'text-green-500' : 'text-gray-400'
-                      }`} />
-                      <input
-                        type="file"
-                        accept=".xlsx"
-                        multiple={column === 'description'}
-                        onChange={(e) => handleTranslatedFileChange(e, column)}
-                        className="hidden translated-file-input"
-                        id={`translated-${column.toLowerCase()}`}
-                      />
-                      <label htmlFor={`translated-${column.toLowerCase()}`} className="text-sm text-center">
-                        {translatedFiles[column] ? (
-                          <p className="font-medium text-green-600">
-                            {translatedFiles[column].length} rows loaded
-                          </p>
-                        ) : (
-                          <p className="font-medium text-gray-700">
-                            Upload translated {column}
-                            {column === 'description' && (
-                              <span className="block text-xs text-gray-500 mt-1">
-                                Select all description_*.xlsx files
-                              </span>
-                            )}
-                          </p>
-                        )}
-                      </label>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-            
-            <div className="mt-6 flex justify-center">
-              <button
-                onClick={replaceColumnsWithTranslations}
-                disabled={Object.keys(translatedFiles).length === 0 || isReplacingColumns}
-                className={`py-3 px-8 rounded-lg font-medium transition-colors ${
-                  Object.keys(translatedFiles).length > 0 && !isReplacingColumns
-                    ? 'bg-purple-600 hover:bg-purple-700 text-white'
-                    : 'bg-gray-100 text-gray-400 cursor-not-allowed'
-                }`}
-              >
-                {isReplacingColumns ? 'Generating Table...' : 'Generate Table with Translations'}
-              </button>
-            </div>
+            <TranslationsPanel
+              language={translationLanguage}
+              translations={translations}
+              coverage={translationCoverage}
+              generated={TRANSLATION_LANGUAGES.map(({ code }) => code).filter(code => translatedTables[code])}
+              isGenerating={isReplacingColumns}
+              onLanguageChange={setTranslationLanguage}
+              onUpload={handleTranslatedFileChange}
+              onClearUploads={() => clearTranslationUploads(translationLanguage)}
+              onGenerate={replaceColumnsWithTranslations}
+              onDownloadAll={downloadAllTranslations}
+              onExportIssues={(column) => {
+                const coverage = translationCoverage?.columns[column];
+                if (coverage) downloadCSV(coverageToRows(coverage), `translation_issues_${translationLanguage}_${column}`);
+              }}
+            />
           </div>
         )}
 
-        {/* New Section: Display Translated Merged Table */} 
-        {translatedMergedData && (
+        {/* Generated table for the selected language */}
+        {translatedTable && (
           <div className="mt-12 border-t border-gray-200 pt-6">
             <div className="flex justify-between items-center mb-4">
               <h3 className="text-xl font-semibold text-gray-900">
-                Generated Table with Translations
+                Generated Table with {translationLabel} Translations
               </h3>
               <div className="flex gap-2">
                 <button
-                  onClick={() => downloadXLSX(translatedMergedData)}
+                  onClick={() => {
+                    const grid = getGridState(translatedTable.id);
+                    exportStoredRows(
+                      translatedTable.id,
+                      { query: grid },
+                      getVisibleColumns(translatedTable.headers || [], grid),
+                      'xlsx',
+                      `translated_data_${translationLanguage}`
+                    );
+                  }}
                   className="flex items-center gap-2 py-2 px-4 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
                 >
                   <Download className="w-4 h-4" />
-                  Download Translated Table (XLSX)
+                  Download {translationLabel} Table (XLSX)
                 </button>
                 <button
-                  onClick={clearTranslatedTable}
+                  onClick={() => clearTranslatedTable(translationLanguage)}
                   className="flex items-center gap-2 py-2 px-4 rounded-lg font-medium bg-red-600 hover:bg-red-700 text-white transition-colors"
                 >
                   <X className="w-4 h-4" />
-                  Clear Translated Table
+                  Clear {translationLabel} Table
                 </button>
               </div>
             </div>
-            {/* Render the table, passing false to hide action buttons */} 
-            {renderTable(translatedMergedData, false)}
+            {/* Render the table without the merge action buttons */} 
+            {renderTable({ file: translatedTable, query: translatedQuery }, {
+              id: translatedTableId(translationLanguage),
+              exportName: `translated_data_${translationLanguage}`,
+              showActionButtons: false,
+            })}
           </div>
         )}
       </div>
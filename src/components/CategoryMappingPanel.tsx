@@ -0,0 +1,187 @@
+import React from 'react';
+import { FileUp, Trash2, X } from 'lucide-react';
+import {
+  CategoryPair,
+  CategorySettings,
+  TaxonomyNode,
+  categoryPairKey,
+  formatTaxonomyPath,
+} from '../services/taxonomy';
+
+interface CategoryMappingPanelProps {
+  settings: CategorySettings;
+  // Supplier pairs in the current merged data; empty before the first merge
+  pairs: CategoryPair[];
+  onChange: (settings: CategorySettings) => void;
+  onImportTaxonomy: (file: File) => void;
+}
+
+const TAXONOMY_LIST_ID = 'taxonomy-paths';
+
+const NodeInput = ({
+  node,
+  nodesByPath,
+  onChange,
+}: {
+  node: TaxonomyNode | null;
+  nodesByPath: Map<string, TaxonomyNode>;
+  onChange: (node: TaxonomyNode | null) => void;
+}) => {
+  // Typed text stays local until it names a category, so half-typed paths are not saved
+  const [text, setText] = React.useState(node ? formatTaxonomyPath(node) : '');
+
+  React.useEffect(() => {
+    setText(node ? formatTaxonomyPath(node) : '');
+  }, [node]);
+
+  const isUnknown = text.trim() !== '' && !nodesByPath.has(text.trim());
+  return (
+    <input
+      type="text"
+      value={text}
+      list={TAXONOMY_LIST_ID}
+      onChange={(e) => {
+        setText(e.target.value);
+        const match = nodesByPath.get(e.target.value.trim());
+        if (match) onChange(match);
+      }}
+      onBlur={() => {
+        if (text.trim() === '') onChange(null);
+        else if (isUnknown) setText(node ? formatTaxonomyPath(node) : '');
+      }}
+      placeholder="Choose a shop category"
+      className={`w-full rounded border px-2 py-1 text-sm ${
+        isUnknown ? 'border-red-400 bg-red-50' : node ? 'border-gray-300' : 'border-amber-400 bg-amber-50'
+      }`}
+    />
+  );
+};
+
+function CategoryMappingPanel({ settings, pairs, onChange, onImportTaxonomy }: CategoryMappingPanelProps) {
+  const [unmappedOnly, setUnmappedOnly] = React.useState(false);
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const nodesById = React.useMemo(() => new Map(settings.taxonomy.map(node => [node.id, node])), [settings.taxonomy]);
+  const nodesByPath = React.useMemo(
+    () => new Map(settings.taxonomy.map(node => [formatTaxonomyPath(node), node])),
+    [settings.taxonomy]
+  );
+
+  const nodeFor = (pair: CategoryPair) =>
+    nodesById.get(settings.assignments[categoryPairKey(pair.category, pair.subcategory)] || '') || null;
+
+  const unmapped = pairs.filter(pair => !nodeFor(pair));
+  const unmappedProducts = unmapped.reduce((sum, pair) => sum + pair.count, 0);
+  const listed = unmappedOnly ? unmapped : pairs;
+
+  const assign = (pair: CategoryPair, node: TaxonomyNode | null) => {
+    const assignments = { ...settings.assignments };
+    const key = categoryPairKey(pair.category, pair.subcategory);
+    if (node) {
+      assignments[key] = node.id;
+    } else {
+      delete assignments[key];
+    }
+    onChange({ ...settings, assignments });
+  };
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportTaxonomy(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+        >
+          <FileUp className="w-4 h-4" />
+          {settings.taxonomy.length > 0 ? 'Replace taxonomy' : 'Import taxonomy CSV'}
+        </button>
+        {settings.taxonomy.length > 0 && (
+          <button
+            onClick={() => onChange({ ...settings, taxonomy: [] })}
+            className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-gray-600 hover:text-red-600 hover:bg-red-50 transition-colors"
+            title="Mappings are kept and apply again once the taxonomy is imported"
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove taxonomy
+          </button>
+        )}
+        <span className="text-sm text-gray-500">
+          {settings.taxonomy.length > 0
+            ? `${settings.taxonomy.length} shop categories`
+            : 'One row per category, as a "Home > Lighting" path or one column per level, with an optional ID column.'}
+        </span>
+      </div>
+
+      {settings.taxonomy.length > 0 && (
+        pairs.length === 0 ? (
+          <p className="text-sm text-gray-500">Merge the files to list the supplier categories.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4 mb-2 text-sm">
+              <span className={unmapped.length > 0 ? 'text-amber-700' : 'text-green-700'}>
+                {pairs.length - unmapped.length} of {pairs.length} supplier categories mapped
+                {unmapped.length > 0 && ` — ${unmappedProducts} products without a shop category`}
+              </span>
+              <label className="flex items-center gap-1 text-gray-700">
+                <input type="checkbox" checked={unmappedOnly} onChange={(e) => setUnmappedOnly(e.target.checked)} />
+                Only unmapped
+              </label>
+              <span className="text-gray-500">Changes apply on the next merge.</span>
+            </div>
+            <datalist id={TAXONOMY_LIST_ID}>
+              {settings.taxonomy.map(node => <option key={node.id} value={formatTaxonomyPath(node)} />)}
+            </datalist>
+            <div className="overflow-auto max-h-[400px]">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="sticky top-0 bg-gray-50 px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier category</th>
+                    <th className="sticky top-0 bg-gray-50 px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Subcategory</th>
+                    <th className="sticky top-0 bg-gray-50 px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">Products</th>
+                    <th className="sticky top-0 bg-gray-50 px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Shop category</th>
+                    <th className="sticky top-0 bg-gray-50 px-2 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {listed.map(pair => {
+                    const node = nodeFor(pair);
+                    return (
+                      <tr key={categoryPairKey(pair.category, pair.subcategory)} className={node ? '' : 'bg-amber-50/50'}>
+                        <td className="px-2 py-1 text-gray-900">{pair.category || <span className="text-gray-400">(empty)</span>}</td>
+                        <td className="px-2 py-1 text-gray-600">{pair.subcategory || <span className="text-gray-400">(empty)</span>}</td>
+                        <td className="px-2 py-1 text-right text-gray-500">{pair.count}</td>
+                        <td className="px-2 py-1 min-w-[280px]">
+                          <NodeInput node={node} nodesByPath={nodesByPath} onChange={(selected) => assign(pair, selected)} />
+                        </td>
+                        <td className="px-2 py-1 text-right">
+                          {node && (
+                            <button onClick={() => assign(pair, null)} className="p-1 text-gray-400 hover:text-red-600" title="Remove mapping">
+                              <X className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
+
+export default CategoryMappingPanel;
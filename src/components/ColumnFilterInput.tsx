@@ -0,0 +1,61 @@
+import { ColumnFilter, ColumnFilterType, FILTER_LABELS } from '../services/grid';
+
+interface ColumnFilterInputProps {
+  filter?: ColumnFilter;
+  onChange: (filter: ColumnFilter | undefined) => void;
+}
+
+const parseBound = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const createFilter = (type: ColumnFilterType): ColumnFilter =>
+  type === 'contains' ? { type, value: '' }
+  : type === 'range' ? { type }
+  : { type };
+
+function ColumnFilterInput({ filter, onChange }: ColumnFilterInputProps) {
+  const inputClass = 'w-full rounded border border-gray-300 px-1 py-0.5 text-xs font-normal normal-case';
+
+  return (
+    <div className="flex flex-col gap-1">
+      <select
+        value={filter?.type ?? ''}
+        onChange={(e) => onChange(e.target.value ? createFilter(e.target.value as ColumnFilterType) : undefined)}
+        className={inputClass}
+      >
+        <option value="">No filter</option>
+        {(Object.keys(FILTER_LABELS) as ColumnFilterType[]).map(type => (
+          <option key={type} value={type}>{FILTER_LABELS[type]}</option>
+        ))}
+      </select>
+      {filter?.type === 'contains' && (
+        <input
+          type="text"
+          value={filter.value}
+          onChange={(e) => onChange({ type: 'contains', value: e.target.value })}
+          placeholder="Text"
+          className={inputClass}
+        />
+      )}
+      {filter?.type === 'range' && (
+        <div className="flex gap-1">
+          <input
+            type="number"
+            value={filter.min ?? ''}
+            onChange={(e) => onChange({ ...filter, min: parseBound(e.target.value) })}
+            placeholder="Min"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            value={filter.max ?? ''}
+            onChange={(e) => onChange({ ...filter, max: parseBound(e.target.value) })}
+            placeholder="Max"
+            className={inputClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ColumnFilterInput;
@@ -0,0 +1,28 @@
+interface ColumnSelectProps {
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+}
+
+// Flags a chosen column the loaded file does not have instead of silently dropping it
+function ColumnSelect({ value, options, onChange }: ColumnSelectProps) {
+  const isMissing = value !== '' && options.length > 0 && !options.includes(value);
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`w-full rounded border px-2 py-1 text-sm ${
+        isMissing ? 'border-red-400 bg-red-50 text-red-700' : 'border-gray-300'
+      }`}
+    >
+      {value === '' && <option value="">(choose column)</option>}
+      {isMissing && <option value={value}>{value} (missing)</option>}
+      {value !== '' && options.length === 0 && <option value={value}>{value}</option>}
+      {options.map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  );
+}
+
+export default ColumnSelect;
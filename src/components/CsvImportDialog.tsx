@@ -0,0 +1,144 @@
+import React from 'react';
+import {
+  CSV_DELIMITER_LABELS,
+  CSV_ENCODING_LABELS,
+  CsvEncoding,
+  CsvImportOptions,
+  previewCsv,
+  sameCsvOptions,
+} from '../services/parse';
+
+interface CsvImportDialogProps {
+  fileName: string;
+  bytes: Uint8Array;
+  detected: CsvImportOptions;
+  initial: CsvImportOptions;
+  onConfirm: (options: CsvImportOptions) => void;
+  onCancel: () => void;
+}
+
+const QUOTE_LABELS: Record<string, string> = {
+  '"': 'Double quote (")',
+  "'": "Single quote (')",
+};
+
+function CsvImportDialog({ fileName, bytes, detected, initial, onConfirm, onCancel }: CsvImportDialogProps) {
+  const [options, setOptions] = React.useState<CsvImportOptions>(initial);
+  const preview = React.useMemo(() => previewCsv(bytes, options), [bytes, options]);
+  const columnCount = Math.max(0, ...preview.map(row => row.length));
+
+  const update = (changes: Partial<CsvImportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const selectClass = 'rounded border border-gray-300 px-2 py-1 text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">CSV import settings</h2>
+          <p className="text-sm text-gray-500">
+            {fileName} • Check that special characters such as ø, å and ä look right in the preview.
+          </p>
+        </div>
+
+        <div className="p-4 flex flex-col min-h-0">
+          <div className="flex flex-wrap items-end gap-4 mb-3 text-sm text-gray-600">
+            <label className="flex flex-col gap-1">
+              Encoding
+              <select
+                value={options.encoding}
+                onChange={(e) => update({ encoding: e.target.value as CsvEncoding })}
+                className={selectClass}
+              >
+                {(Object.keys(CSV_ENCODING_LABELS) as CsvEncoding[]).map(encoding => (
+                  <option key={encoding} value={encoding}>{CSV_ENCODING_LABELS[encoding]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Delimiter
+              <select
+                value={options.delimiter}
+                onChange={(e) => update({ delimiter: e.target.value })}
+                className={selectClass}
+              >
+                {Object.entries(CSV_DELIMITER_LABELS).map(([delimiter, label]) => (
+                  <option key={delimiter} value={delimiter}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Quote character
+              <select
+                value={options.quoteChar}
+                onChange={(e) => update({ quoteChar: e.target.value })}
+                className={selectClass}
+              >
+                {Object.entries(QUOTE_LABELS).map(([quoteChar, label]) => (
+                  <option key={quoteChar} value={quoteChar}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Decimal separator
+              <select
+                value={options.decimalSeparator}
+                onChange={(e) => update({ decimalSeparator: e.target.value as CsvImportOptions['decimalSeparator'] })}
+                className={selectClass}
+              >
+                <option value=".">Point (12.50)</option>
+                <option value=",">Comma (12,50)</option>
+              </select>
+            </label>
+            {!sameCsvOptions(options, detected) && (
+              <button
+                onClick={() => setOptions(detected)}
+                className="py-1 px-2 rounded text-blue-600 hover:bg-blue-50"
+              >
+                Use detected settings
+              </button>
+            )}
+          </div>
+
+          <div className="overflow-auto border rounded">
+            <table className="min-w-full text-xs">
+              <tbody className="divide-y divide-gray-100">
+                {preview.map((row, index) => (
+                  <tr key={index} className={index === 0 ? 'bg-gray-50 font-semibold text-gray-900' : 'text-gray-600'}>
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <td key={i} className="px-2 py-1 truncate max-w-[160px]" title={row[i]}>
+                        {row[i]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-500">
+            These settings are remembered for the next file of this kind.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="py-2 px-4 rounded-lg font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(options)}
+              className="py-2 px-4 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CsvImportDialog;
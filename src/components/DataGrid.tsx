@@ -0,0 +1,269 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { DataRow } from '../types';
+import { ColumnFilter, GridSort } from '../services/grid';
+import ColumnFilterInput from './ColumnFilterInput';
+
+interface DataGridProps {
+  columns: string[];
+  rowCount: number;
+  // Rows held in memory; without them the grid reads the rows it shows through loadRows
+  rows?: DataRow[];
+  loadRows?: (offset: number, limit: number) => Promise<DataRow[]>;
+  // Set while the rows matching the search and filters are still being found
+  isLoading?: boolean;
+  // A new value scrolls back to the top
+  resetKey: unknown;
+  // A new value reads the rows in view again, e.g. after an edit, keeping the scroll position
+  dataKey: unknown;
+  sort: GridSort | null;
+  onSort: (column: string) => void;
+  showFilters: boolean;
+  filters: Record<string, ColumnFilter>;
+  onFilterChange: (column: string, filter: ColumnFilter | undefined) => void;
+  // Cells can be edited by double-clicking when this is set
+  onEdit?: (row: DataRow, column: string, value: string) => void;
+  isEdited?: (row: DataRow, column: string) => boolean;
+}
+
+// Every row has the same height, so the rows in view follow from the scroll position alone
+const ROW_HEIGHT = 40;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+// Rows read from the database per request
+const BLOCK_SIZE = 200;
+// Blocks kept on either side of those in view; the rest are dropped so memory does not grow with
+// how far the table has been scrolled
+const KEPT_BLOCKS = 1;
+const COLUMN_WIDTH = 200;
+
+// A cheap prefix test keeps URL parsing to cells that are likely links
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+
+const urlPath = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !URL_PATTERN.test(value)) return null;
+  try {
+    return new URL(value).pathname;
+  } catch {
+    return null;
+  }
+};
+
+const renderCell = (content: unknown) => {
+  const path = urlPath(content);
+  if (path !== null) {
+    return (
+      <a
+        href={content as string}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-blue-600 hover:text-blue-800"
+        title={content as string}
+      >
+        {path}
+      </a>
+    );
+  }
+  const text = String(content ?? '');
+  return <span title={text}>{text.length > 50 ? `${text.slice(0, 50)}...` : text}</span>;
+};
+
+function DataGrid({
+  columns,
+  rowCount,
+  rows,
+  loadRows,
+  isLoading,
+  resetKey,
+  dataKey,
+  sort,
+  onSort,
+  showFilters,
+  filters,
+  onFilterChange,
+  onEdit,
+  isEdited,
+}: DataGridProps) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [blocks, setBlocks] = React.useState<Map<number, DataRow[]>>(new Map());
+  const [editing, setEditing] = React.useState<{ index: number; column: string; value: string } | null>(null);
+  // Cleared as soon as an edit is committed or cancelled: Enter unmounts the input, whose blur
+  // would otherwise commit the same edit a second time
+  const editOpen = React.useRef(false);
+  const requestedBlocks = React.useRef(new Set<number>());
+  // Responses for rows read before the last reset are dropped
+  const generation = React.useRef(0);
+  const loadRowsRef = React.useRef(loadRows);
+  loadRowsRef.current = loadRows;
+
+  React.useEffect(() => {
+    setScrollTop(0);
+    editOpen.current = false;
+    setEditing(null);
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+  }, [resetKey]);
+
+  React.useEffect(() => {
+    generation.current += 1;
+    requestedBlocks.current = new Set();
+    setBlocks(new Map());
+  }, [dataKey, resetKey]);
+
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const firstBlock = Math.floor(start / BLOCK_SIZE);
+  const lastBlock = Math.floor(Math.max(start, end - 1) / BLOCK_SIZE);
+  const readsRows = !rows && Boolean(loadRows);
+
+  React.useEffect(() => {
+    if (!readsRows || !loadRowsRef.current) return;
+    const current = generation.current;
+    const keepFrom = firstBlock - KEPT_BLOCKS;
+    const keepTo = lastBlock + KEPT_BLOCKS;
+    const isKept = (block: number) => block >= keepFrom && block <= keepTo;
+    requestedBlocks.current.forEach(block => {
+      if (!isKept(block)) requestedBlocks.current.delete(block);
+    });
+    setBlocks(prev => {
+      if ([...prev.keys()].every(isKept)) return prev;
+      return new Map([...prev].filter(([block]) => isKept(block)));
+    });
+    for (let block = firstBlock; block <= lastBlock; block++) {
+      if (requestedBlocks.current.has(block)) continue;
+      requestedBlocks.current.add(block);
+      loadRowsRef.current(block * BLOCK_SIZE, BLOCK_SIZE)
+        .then(loaded => {
+          // A block scrolled out of range while it was read is no longer requested
+          if (generation.current === current && requestedBlocks.current.has(block)) setBlocks(prev => new Map(prev).set(block, loaded));
+        })
+        .catch(error => {
+          requestedBlocks.current.delete(block);
+          console.error('Error reading table rows:', error);
+        });
+    }
+  }, [readsRows, firstBlock, lastBlock, dataKey, resetKey]);
+
+  const getRow = (index: number): DataRow | undefined =>
+    rows ? rows[index] : blocks.get(Math.floor(index / BLOCK_SIZE))?.[index % BLOCK_SIZE];
+
+  const visibleIndexes = Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+
+  const commitEdit = () => {
+    if (!editing || !editOpen.current) return;
+    editOpen.current = false;
+    const row = getRow(editing.index);
+    if (row && onEdit) onEdit(row, editing.column, editing.value);
+    setEditing(null);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="overflow-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg max-h-[600px]"
+    >
+      <table
+        className="table-fixed border-separate border-spacing-0"
+        style={{ width: Math.max(1, columns.length) * COLUMN_WIDTH }}
+      >
+        <colgroup>
+          {columns.map(column => <col key={column} style={{ width: COLUMN_WIDTH }} />)}
+        </colgroup>
+        <thead>
+          <tr>
+            {columns.map((column, index) => (
+              <th
+                key={column}
+                className={`sticky top-0 ${index === 0 ? 'left-0 z-30 border-r' : 'z-20'} bg-gray-50 border-b border-gray-200 px-4 py-3 text-left align-top text-xs font-medium text-gray-500 uppercase tracking-wider`}
+              >
+                <button
+                  onClick={() => onSort(column)}
+                  className="flex items-center gap-1 text-left uppercase tracking-wider hover:text-gray-700"
+                  title="Sort by this column"
+                >
+                  <span className="truncate">{column}</span>
+                  {sort?.column === column ? (
+                    sort.direction === 'asc'
+                      ? <ArrowUp className="w-3 h-3 shrink-0" />
+                      : <ArrowDown className="w-3 h-3 shrink-0" />
+                  ) : (
+                    <ArrowUpDown className="w-3 h-3 shrink-0 opacity-30" />
+                  )}
+                </button>
+                {showFilters && (
+                  <div className="mt-2">
+                    <ColumnFilterInput
+                      filter={filters[column]}
+                      onChange={(filter) => onFilterChange(column, filter)}
+                    />
+                  </div>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rowCount === 0 && (
+            <tr>
+              <td colSpan={columns.length || 1} className="px-6 py-8 text-center text-sm text-gray-500">
+                {isLoading ? 'Reading rows...' : 'No rows match the search and filters.'}
+              </td>
+            </tr>
+          )}
+          {start > 0 && <tr style={{ height: start * ROW_HEIGHT }} />}
+          {visibleIndexes.map(index => {
+            const row = getRow(index);
+            return (
+              <tr key={index} style={{ height: ROW_HEIGHT }} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                {columns.map((column, columnIndex) => {
+                  const edited = Boolean(row && isEdited?.(row, column));
+                  const isEditing = editing?.index === index && editing.column === column;
+                  return (
+                    <td
+                      key={column}
+                      onDoubleClick={() => {
+                        if (!row || !onEdit) return;
+                        editOpen.current = true;
+                        setEditing({ index, column, value: String(row[column] ?? '') });
+                      }}
+                      title={edited ? 'Edited by hand' : undefined}
+                      className={`border-b border-gray-200 text-sm truncate ${isEditing ? 'px-1' : 'px-4'} ${
+                        edited ? 'bg-amber-50 text-amber-900 font-medium' : 'text-gray-500'
+                      } ${columnIndex === 0 ? `sticky left-0 z-10 border-r ${edited ? '' : 'bg-inherit'}` : ''}`}
+                    >
+                      {isEditing ? (
+                        <input
+                          type="text"
+                          autoFocus
+                          value={editing.value}
+                          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                          onBlur={commitEdit}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEdit();
+                            if (e.key === 'Escape') {
+                              editOpen.current = false;
+                              setEditing(null);
+                            }
+                          }}
+                          className="w-full rounded border border-blue-400 px-2 py-1 text-sm text-gray-900"
+                        />
+                      ) : row ? (
+                        renderCell(row[column])
+                      ) : (
+                        <span className="text-gray-300">…</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+          {end < rowCount && <tr style={{ height: (rowCount - end) * ROW_HEIGHT }} />}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default DataGrid;
@@ -0,0 +1,193 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, X } from 'lucide-react';
+import { SourceId } from '../services/mapping';
+import {
+  DescriptionFormat,
+  DescriptionPart,
+  DescriptionPartStyle,
+  DescriptionSample,
+  DescriptionTemplate,
+  DESCRIPTION_FORMAT_LABELS,
+  DESCRIPTION_SEPARATORS,
+  buildDescription,
+  createDescriptionPart,
+} from '../services/description';
+import { MappingSourceInfo } from './MappingEditor';
+import ColumnSelect from './ColumnSelect';
+
+interface DescriptionTemplateEditorProps {
+  template: DescriptionTemplate;
+  sources: MappingSourceInfo[];
+  sourceOrder: SourceId[];
+  samples: DescriptionSample[];
+  onChange: (template: DescriptionTemplate) => void;
+  onReset: () => void;
+}
+
+function DescriptionTemplateEditor({ template, sources, sourceOrder, samples, onChange, onReset }: DescriptionTemplateEditorProps) {
+  const [sampleIndex, setSampleIndex] = React.useState(0);
+  const sample = samples[Math.min(sampleIndex, samples.length - 1)];
+
+  const sourceName = (id: SourceId) => sources.find(source => source.id === id)?.name ?? id;
+  const sourceHeaders = (id: SourceId) => sources.find(source => source.id === id)?.headers ?? [];
+
+  const preview = React.useMemo(
+    () => (sample ? buildDescription(template, sample.items) : ''),
+    [template, sample]
+  );
+
+  const updatePart = (index: number, changes: Partial<DescriptionPart>) => {
+    onChange({
+      ...template,
+      parts: template.parts.map((part, i) => {
+        if (i !== index) return part;
+        const updated = { ...part, ...changes };
+        // Same as the mapping editor: a column rarely exists under the same name in another file
+        if (changes.source && !sourceHeaders(changes.source).includes(updated.column)) updated.column = '';
+        return updated;
+      }),
+    });
+  };
+
+  const movePart = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= template.parts.length) return;
+    const parts = [...template.parts];
+    [parts[index], parts[target]] = [parts[target], parts[index]];
+    onChange({ ...template, parts });
+  };
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Output format</label>
+          <select
+            value={template.format}
+            onChange={(e) => onChange({ ...template, format: e.target.value as DescriptionFormat })}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            {(Object.keys(DESCRIPTION_FORMAT_LABELS) as DescriptionFormat[]).map(format => (
+              <option key={format} value={format}>{DESCRIPTION_FORMAT_LABELS[format]}</option>
+            ))}
+          </select>
+        </div>
+        {template.format === 'text' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Between paragraphs</label>
+            <select
+              value={template.separator}
+              onChange={(e) => onChange({ ...template, separator: e.target.value })}
+              className="rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              {DESCRIPTION_SEPARATORS.map(separator => (
+                <option key={separator.label} value={separator.value}>{separator.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={template.dedupe}
+            onChange={(e) => onChange({ ...template, dedupe: e.target.checked })}
+          />
+          Skip paragraphs repeated from an earlier part
+        </label>
+        <button
+          onClick={onReset}
+          className="ml-auto flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset to default
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {template.parts.length === 0 && <p className="text-sm text-gray-500">No parts — descriptions will be empty.</p>}
+        {template.parts.map((part, index) => (
+          <div key={part.id} className="flex flex-wrap items-center gap-2 rounded border border-gray-200 p-2">
+            <span className="text-xs font-medium text-gray-400 w-5">{index + 1}.</span>
+            <select
+              value={part.source}
+              onChange={(e) => updatePart(index, { source: e.target.value })}
+              className="w-40 rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              {!sourceOrder.includes(part.source) && <option value={part.source}>{part.source} (not loaded)</option>}
+              {sourceOrder.map(id => (
+                <option key={id} value={id}>{sourceName(id)}</option>
+              ))}
+            </select>
+            <div className="w-48">
+              <ColumnSelect
+                value={part.column}
+                options={sourceHeaders(part.source)}
+                onChange={(column) => updatePart(index, { column })}
+              />
+            </div>
+            <input
+              type="text"
+              value={part.heading}
+              onChange={(e) => updatePart(index, { heading: e.target.value })}
+              placeholder="Heading (optional)"
+              className="w-44 rounded border border-gray-300 px-2 py-1 text-sm"
+            />
+            <select
+              value={part.style}
+              onChange={(e) => updatePart(index, { style: e.target.value as DescriptionPartStyle })}
+              className="rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              <option value="paragraphs">Paragraphs</option>
+              <option value="list">List, one item per line</option>
+            </select>
+            <div className="ml-auto flex">
+              <button onClick={() => movePart(index, -1)} className="p-1 text-gray-400 hover:text-gray-700" title="Move up">
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => movePart(index, 1)} className="p-1 text-gray-400 hover:text-gray-700" title="Move down">
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onChange({ ...template, parts: template.parts.filter((_, i) => i !== index) })}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove part"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange({ ...template, parts: [...template.parts, createDescriptionPart(sourceOrder[0])] })}
+        className="mt-3 flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Part
+      </button>
+
+      {sample && (
+        <div className="mt-4">
+          <div className="flex items-center gap-2 mb-2">
+            <p className="text-sm text-gray-700">Preview for</p>
+            <select
+              value={Math.min(sampleIndex, samples.length - 1)}
+              onChange={(e) => setSampleIndex(Number(e.target.value))}
+              className="rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              {samples.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}: {option.sku}</option>
+              ))}
+            </select>
+          </div>
+          <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded border bg-gray-50 p-3 text-xs text-gray-700">
+            {preview || '(empty)'}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DescriptionTemplateEditor;
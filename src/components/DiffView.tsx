@@ -0,0 +1,137 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { ChangeType, DatasetDiff } from '../services/diff';
+
+interface DiffViewProps {
+  diff: DatasetDiff;
+  // When the baseline was merged; unknown for baselines saved before merges were dated
+  baselineMergedAt?: number;
+  onExport: (types: ChangeType[], format: 'csv' | 'xlsx') => void;
+  onSetBaseline: () => void;
+}
+
+const CHANGE_LABELS: Record<ChangeType, string> = {
+  new: 'New products',
+  removed: 'Removed products',
+  changed: 'Changed products',
+};
+
+const MAX_VISIBLE = 200;
+
+const formatValue = (value: unknown) => {
+  const text = String(value ?? '');
+  return text.length > 80 ? `${text.slice(0, 80)}...` : text;
+};
+
+function DiffView({ diff, baselineMergedAt, onExport, onSetBaseline }: DiffViewProps) {
+  const [filter, setFilter] = React.useState<ChangeType | null>(null);
+
+  const entries = [
+    ...(filter === null || filter === 'new'
+      ? diff.added.map(row => ({ type: 'new' as const, sku: String(row.SKU), detail: String(row.Title ?? '') }))
+      : []),
+    ...(filter === null || filter === 'changed'
+      ? diff.changed.map(({ sku, changes }) => ({
+          type: 'changed' as const,
+          sku,
+          detail: changes.map(change => `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`).join('\n'),
+        }))
+      : []),
+    ...(filter === null || filter === 'removed'
+      ? diff.removed.map(row => ({ type: 'removed' as const, sku: String(row.SKU), detail: String(row.Title ?? '') }))
+      : []),
+  ];
+
+  const counts: Record<ChangeType, number> = {
+    new: diff.added.length,
+    changed: diff.changed.length,
+    removed: diff.removed.length,
+  };
+  const exportTypes: ChangeType[] = filter ? [filter] : ['new', 'changed', 'removed'];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <p className="text-sm text-gray-600">
+          Compared with the baseline merged{' '}
+          <span className="font-medium text-gray-900">
+            {baselineMergedAt ? new Date(baselineMergedAt).toLocaleString() : 'at an unknown date'}
+          </span>
+          .
+        </p>
+        <button
+          onClick={onSetBaseline}
+          className="py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+        >
+          Use current data as baseline
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        {(['new', 'changed', 'removed'] as ChangeType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => setFilter(filter === type ? null : type)}
+            className={`rounded-lg border p-3 text-left transition-colors ${
+              filter === type ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+            }`}
+          >
+            <p className="text-xs font-medium text-gray-500 uppercase">{CHANGE_LABELS[type]}</p>
+            <p className="text-2xl font-semibold text-gray-900">{counts[type]}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg max-h-[600px]">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="sticky top-0 bg-gray-50 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+              <th className="sticky top-0 bg-gray-50 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SKU</th>
+              <th className="sticky top-0 bg-gray-50 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={3} className="px-6 py-4 text-sm text-gray-500">No changes.</td>
+              </tr>
+            )}
+            {entries.slice(0, MAX_VISIBLE).map(entry => (
+              <tr key={`${entry.type}-${entry.sku}`}>
+                <td className={`px-6 py-3 text-sm font-medium ${
+                  entry.type === 'new' ? 'text-green-600' : entry.type === 'removed' ? 'text-red-600' : 'text-amber-600'
+                }`}>
+                  {entry.type}
+                </td>
+                <td className="px-6 py-3 text-sm font-mono text-gray-700">{entry.sku}</td>
+                <td className="px-6 py-3 text-sm text-gray-500 whitespace-pre-wrap">{entry.detail}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {entries.length > MAX_VISIBLE && (
+        <p className="mt-2 text-sm text-gray-500">
+          Showing the first {MAX_VISIBLE} of {entries.length} changes. Export the delta file to see all of them.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-4 mt-4 justify-end">
+        {(['csv', 'xlsx'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => onExport(exportTypes, format)}
+            disabled={exportTypes.every(type => counts[type] === 0)}
+            className="flex items-center gap-2 py-2 px-4 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            Export Delta ({format.toUpperCase()})
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default DiffView;
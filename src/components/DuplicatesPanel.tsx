@@ -0,0 +1,197 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import {
+  DUPLICATE_STRATEGY_LABELS,
+  DEFAULT_DUPLICATE_STRATEGY,
+  DuplicateGroup,
+  DuplicateResolution,
+  DuplicateResolutions,
+  DuplicateStrategy,
+  defaultFieldChoice,
+  duplicateKey,
+  getGroupColumns,
+  toRowNumber,
+} from '../services/duplicates';
+
+interface DuplicatesPanelProps {
+  groups: DuplicateGroup[];
+  resolutions: DuplicateResolutions;
+  onChange: (resolutions: DuplicateResolutions) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const isChosen = (resolution: DuplicateResolution, group: DuplicateGroup, column: string, position: number) => {
+  switch (resolution.strategy) {
+    case 'first':
+      return position === 0;
+    case 'last':
+      return position === group.rows.length - 1;
+    case 'pick':
+      return position === (resolution.pick ?? 0);
+    case 'fieldMerge':
+      return position === (resolution.fields?.[column] ?? defaultFieldChoice(group.rows, column));
+  }
+};
+
+function DuplicatesPanel({ groups, resolutions, onChange, onConfirm, onCancel }: DuplicatesPanelProps) {
+  const [showAllFields, setShowAllFields] = React.useState(false);
+
+  const updateResolution = (group: DuplicateGroup, resolution: DuplicateResolution) => {
+    onChange({ ...resolutions, [duplicateKey(group.source, group.sku)]: resolution });
+  };
+
+  const applyToAll = (strategy: DuplicateStrategy) => {
+    const updated: DuplicateResolutions = { ...resolutions };
+    groups.forEach(group => {
+      updated[duplicateKey(group.source, group.sku)] = { strategy };
+    });
+    onChange(updated);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Duplicate SKUs</h3>
+            <p className="text-sm text-gray-500">
+              {groups.length} normalized SKU(s) appear more than once. Choose which row wins for each group before merging.
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-gray-400 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-100 text-sm">
+          <span className="text-gray-600">Apply to all:</span>
+          {(['first', 'last', 'fieldMerge'] as DuplicateStrategy[]).map(strategy => (
+            <button
+              key={strategy}
+              onClick={() => applyToAll(strategy)}
+              className="py-1 px-3 rounded-lg font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+            >
+              {DUPLICATE_STRATEGY_LABELS[strategy]}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-2 text-gray-600">
+            <input type="checkbox" checked={showAllFields} onChange={(e) => setShowAllFields(e.target.checked)} />
+            Show identical fields
+          </label>
+        </div>
+
+        <div className="overflow-auto p-6 space-y-6">
+          {groups.map(group => {
+            const key = duplicateKey(group.source, group.sku);
+            const resolution = resolutions[key] ?? { strategy: DEFAULT_DUPLICATE_STRATEGY };
+            const columns = getGroupColumns(group.rows).filter(column =>
+              showAllFields || new Set(group.rows.map(({ row }) => String(row[column] ?? ''))).size > 1
+            );
+
+            return (
+              <div key={key} className="border rounded-lg">
+                <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-gray-50 rounded-t-lg">
+                  <span className="text-sm font-medium text-gray-900">{group.sku}</span>
+                  <span className="text-xs text-gray-500">
+                    {group.sourceName} · {group.rows.length} rows
+                  </span>
+                  <select
+                    value={resolution.strategy}
+                    onChange={(e) => updateResolution(group, { strategy: e.target.value as DuplicateStrategy })}
+                    className="ml-auto rounded border border-gray-300 px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]).map(strategy => (
+                      <option key={strategy} value={strategy}>{DUPLICATE_STRATEGY_LABELS[strategy]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                        {group.rows.map(({ index }, position) => (
+                          <th key={index} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                            <label className="flex items-center gap-2">
+                              {resolution.strategy === 'pick' && (
+                                <input
+                                  type="radio"
+                                  name={`${key}-pick`}
+                                  checked={(resolution.pick ?? 0) === position}
+                                  onChange={() => updateResolution(group, { strategy: 'pick', pick: position })}
+                                />
+                              )}
+                              Row {toRowNumber(index)}
+                            </label>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {columns.length === 0 && (
+                        <tr>
+                          <td colSpan={group.rows.length + 1} className="px-3 py-2 text-gray-500">
+                            All fields are identical.
+                          </td>
+                        </tr>
+                      )}
+                      {columns.map(column => (
+                        <tr key={column}>
+                          <td className="px-3 py-2 font-medium text-gray-700 whitespace-nowrap">{column}</td>
+                          {group.rows.map(({ index, row }, position) => {
+                            const chosen = isChosen(resolution, group, column, position);
+                            const value = String(row[column] ?? '');
+                            return (
+                              <td
+                                key={index}
+                                className={`px-3 py-2 max-w-[300px] ${chosen ? 'bg-green-50 text-green-800' : 'text-gray-500'}`}
+                              >
+                                <label className="flex items-start gap-2">
+                                  {resolution.strategy === 'fieldMerge' && (
+                                    <input
+                                      type="radio"
+                                      name={`${key}-${column}`}
+                                      checked={chosen}
+                                      onChange={() => updateResolution(group, {
+                                        strategy: 'fieldMerge',
+                                        fields: { ...resolution.fields, [column]: position },
+                                      })}
+                                      className="mt-1"
+                                    />
+                                  )}
+                                  <span className="truncate" title={value}>{value}</span>
+                                </label>
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="py-2 px-4 rounded-lg font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="py-2 px-6 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            Merge with these resolutions
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DuplicatesPanel;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Columns, Download, Filter, Search } from 'lucide-react';
+
+interface GridToolbarProps {
+  search: string;
+  onSearch: (search: string) => void;
+  showFilters: boolean;
+  activeFilterCount: number;
+  onToggleFilters: () => void;
+  onClearFilters: () => void;
+  // Every column in display order, hidden ones included
+  columns: string[];
+  hiddenColumns: string[];
+  onToggleColumn: (column: string, visible: boolean) => void;
+  onMoveColumn: (column: string, offset: -1 | 1) => void;
+  onResetColumns: () => void;
+  rowCount: number;
+  totalCount: number;
+  onExport: (format: 'csv' | 'xlsx') => void;
+}
+
+function GridToolbar({
+  search,
+  onSearch,
+  showFilters,
+  activeFilterCount,
+  onToggleFilters,
+  onClearFilters,
+  columns,
+  hiddenColumns,
+  onToggleColumn,
+  onMoveColumn,
+  onResetColumns,
+  rowCount,
+  totalCount,
+  onExport,
+}: GridToolbarProps) {
+  const [showColumns, setShowColumns] = React.useState(false);
+
+  const buttonClass = (active: boolean) =>
+    `flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium transition-colors ${
+      active ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-3">
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => onSearch(e.target.value)}
+          placeholder="Search all cells"
+          className="rounded border border-gray-300 pl-7 pr-2 py-1 text-sm w-56"
+        />
+      </div>
+
+      <button onClick={onToggleFilters} className={buttonClass(showFilters)}>
+        <Filter className="w-4 h-4" />
+        Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+      </button>
+      {activeFilterCount > 0 && (
+        <button onClick={onClearFilters} className="text-sm text-blue-600 hover:text-blue-800">
+          Clear filters
+        </button>
+      )}
+
+      <div className="relative">
+        <button onClick={() => setShowColumns(prev => !prev)} className={buttonClass(showColumns)}>
+          <Columns className="w-4 h-4" />
+          Columns{hiddenColumns.length > 0 && ` (${hiddenColumns.length} hidden)`}
+        </button>
+        {showColumns && (
+          <div className="absolute z-40 mt-1 w-72 max-h-80 overflow-auto rounded-lg border bg-white shadow-lg p-2">
+            <ul className="divide-y">
+              {columns.map((column, index) => (
+                <li key={column} className="flex items-center gap-2 py-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!hiddenColumns.includes(column)}
+                    onChange={(e) => onToggleColumn(column, e.target.checked)}
+                  />
+                  <span className="truncate flex-1" title={column}>{column}</span>
+                  <button
+                    onClick={() => onMoveColumn(column, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move left"
+                  >
+                    <ArrowUp className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onMoveColumn(column, 1)}
+                    disabled={index === columns.length - 1}
+                    className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move right"
+                  >
+                    <ArrowDown className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button onClick={onResetColumns} className="mt-2 text-sm text-blue-600 hover:text-blue-800">
+              Show all in file order
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="ml-auto flex items-center gap-3 text-sm text-gray-600">
+        <span>{rowCount === totalCount ? `${totalCount} rows` : `${rowCount} of ${totalCount} rows`}</span>
+        {(['csv', 'xlsx'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => onExport(format)}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+            title="Export the rows and columns shown"
+          >
+            <Download className="w-4 h-4" />
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default GridToolbar;
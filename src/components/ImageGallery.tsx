@@ -0,0 +1,215 @@
+import React from 'react';
+import { AlertTriangle, ArrowLeft, ArrowRight, ImageOff } from 'lucide-react';
+import { DataRow } from '../types';
+import {
+  ImageChanges,
+  ImageIssue,
+  ImageSummary,
+  IMAGE_ISSUE_LABELS,
+  checkProductImages,
+  compactImages,
+  isValidImageUrl,
+  moveImage,
+} from '../services/images';
+
+interface ImageGalleryProps {
+  // Products of the merged data as the table shows them, searched and filtered
+  rowCount: number;
+  // Issue counts over those products; null while they are counted
+  summary: ImageSummary | null;
+  // Reads the listed products, either all of them or only those with issues
+  loadRows: (offset: number, limit: number, issuesOnly: boolean) => Promise<DataRow[]>;
+  // A new value reads the products shown again, e.g. once the search changes
+  dataKey: unknown;
+  onChange: (row: DataRow, changes: ImageChanges) => void;
+  onCompactAll: (dropDuplicates: boolean) => void;
+}
+
+// Products rendered at first and per "Show more"
+const PAGE_SIZE = 50;
+
+const ISSUE_STYLES: Record<ImageIssue, string> = {
+  malformed: 'bg-red-100 text-red-700',
+  duplicate: 'bg-amber-100 text-amber-700',
+  gap: 'bg-gray-100 text-gray-600',
+};
+
+const fileName = (url: string) => url.split(/[/?#]/).filter(Boolean).slice(-1)[0] || url;
+
+function ImageGallery({ rowCount, summary, loadRows, dataKey, onChange, onCompactAll }: ImageGalleryProps) {
+  // Off by default so the view works offline and does not fetch thousands of images
+  const [loadImages, setLoadImages] = React.useState(false);
+  const [issuesOnly, setIssuesOnly] = React.useState(false);
+  const [dropDuplicates, setDropDuplicates] = React.useState(true);
+  const [shown, setShown] = React.useState(PAGE_SIZE);
+  const [failed, setFailed] = React.useState<Set<string>>(new Set());
+  const [rows, setRows] = React.useState<DataRow[]>([]);
+  const loadRowsRef = React.useRef(loadRows);
+  loadRowsRef.current = loadRows;
+
+  const listedCount = summary ? (issuesOnly ? summary.withIssues.length : rowCount) : 0;
+
+  React.useEffect(() => {
+    setShown(PAGE_SIZE);
+  }, [rowCount, issuesOnly]);
+
+  // The products on screen stay until the next ones are read, so an edit does not flicker
+  React.useEffect(() => {
+    if (!summary) return;
+    let cancelled = false;
+    loadRowsRef.current(0, shown, issuesOnly)
+      .then(loaded => {
+        if (!cancelled) setRows(loaded);
+      })
+      .catch(error => console.error('Error reading products:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [summary, shown, issuesOnly, dataKey]);
+
+  const products = React.useMemo(
+    () => rows.map(row => ({ row, images: checkProductImages(row) })),
+    [rows]
+  );
+
+  const renderThumbnail = (url: string) => {
+    if (loadImages && isValidImageUrl(url) && !failed.has(url)) {
+      return (
+        <img
+          src={url}
+          alt=""
+          loading="lazy"
+          onError={() => setFailed(prev => new Set(prev).add(url))}
+          className="w-full h-full object-contain"
+        />
+      );
+    }
+    return (
+      <span className="flex flex-col items-center gap-1 px-1 text-center text-[10px] text-gray-500 break-all">
+        {loadImages && failed.has(url) && <ImageOff className="w-4 h-4 text-gray-400" />}
+        {fileName(url)}
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+        <label className="flex items-center gap-1 text-gray-700">
+          <input type="checkbox" checked={loadImages} onChange={(e) => setLoadImages(e.target.checked)} />
+          Load thumbnails
+        </label>
+        <label className="flex items-center gap-1 text-gray-700">
+          <input type="checkbox" checked={issuesOnly} onChange={(e) => setIssuesOnly(e.target.checked)} />
+          Only products with issues ({summary ? summary.withIssues.length : '...'})
+        </label>
+        <span className="text-gray-500">
+          {summary
+            ? `${summary.issues.malformed} malformed, ${summary.issues.duplicate} duplicate, ${summary.issues.gap} missing in the numbering; ${summary.withoutImages} products without images`
+            : 'Checking the images...'}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <label className="flex items-center gap-1 text-gray-700">
+            <input type="checkbox" checked={dropDuplicates} onChange={(e) => setDropDuplicates(e.target.checked)} />
+            Remove duplicates
+          </label>
+          <button
+            onClick={() => onCompactAll(dropDuplicates)}
+            className="py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+            title="Add a transform that compacts the images of every product after each merge"
+          >
+            Compact all products
+          </button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg divide-y">
+        {summary && listedCount === 0 && (
+          <p className="p-4 text-sm text-gray-500">No products match the search, filters and issue filter.</p>
+        )}
+        {summary && listedCount > 0 && products.slice(0, Math.min(shown, listedCount)).map(({ row, images }, index) => {
+          const needsCompacting = images.issues.gap > 0 || (dropDuplicates && images.issues.duplicate > 0);
+          return (
+            <div key={`${String(row.SKU ?? '')}:${index}`} className="p-3">
+              <div className="flex items-center gap-3 mb-2">
+                <span className="text-sm font-medium text-gray-900">{String(row.SKU ?? '')}</span>
+                <span className="text-sm text-gray-500 truncate">{String(row.Title ?? '')}</span>
+                <span className="text-xs text-gray-400">{images.imageCount} images</span>
+                {needsCompacting && (
+                  <button
+                    onClick={() => onChange(row, compactImages(row, dropDuplicates))}
+                    className="ml-auto text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Compact
+                  </button>
+                )}
+              </div>
+              {images.slots.length === 0 ? (
+                <p className="text-sm text-gray-400">No images</p>
+              ) : (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {images.slots.map((slot, slotIndex) => (
+                    <div key={slot.column} className="w-28 shrink-0">
+                      <div
+                        className={`h-24 flex items-center justify-center rounded border overflow-hidden ${
+                          slot.url ? 'bg-gray-50 border-gray-200' : 'border-dashed border-gray-300'
+                        }`}
+                      >
+                        {slot.url ? (
+                          <a href={slot.url} target="_blank" rel="noopener noreferrer" title={slot.url} className="w-full h-full flex items-center justify-center">
+                            {renderThumbnail(slot.url)}
+                          </a>
+                        ) : (
+                          <span className="text-xs text-gray-400">empty</span>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between mt-1">
+                        <button
+                          onClick={() => onChange(row, moveImage(row, slot.column, -1))}
+                          disabled={slotIndex === 0}
+                          className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                          title="Move left"
+                        >
+                          <ArrowLeft className="w-3 h-3" />
+                        </button>
+                        <span className="text-xs text-gray-500">{slot.column}</span>
+                        <button
+                          onClick={() => onChange(row, moveImage(row, slot.column, 1))}
+                          disabled={slotIndex === images.slots.length - 1}
+                          className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                          title="Move right"
+                        >
+                          <ArrowRight className="w-3 h-3" />
+                        </button>
+                      </div>
+                      {slot.issues.map(issue => (
+                        <span
+                          key={issue}
+                          className={`mt-1 flex items-center gap-1 rounded px-1 text-[10px] ${ISSUE_STYLES[issue]}`}
+                        >
+                          <AlertTriangle className="w-3 h-3 shrink-0" />
+                          {IMAGE_ISSUE_LABELS[issue]}
+                        </span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {listedCount > shown && (
+        <button
+          onClick={() => setShown(prev => prev + PAGE_SIZE)}
+          className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+        >
+          Show more ({listedCount - shown} left)
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default ImageGallery;
@@ -0,0 +1,290 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, X } from 'lucide-react';
+import {
+  FieldMapping,
+  FieldSource,
+  FieldTransform,
+  MergeProfile,
+  SourceId,
+  TRANSFORM_LABELS,
+  findMissingColumns,
+  orderFieldSources,
+} from '../services/mapping';
+import ColumnSelect from './ColumnSelect';
+
+export interface MappingSourceInfo {
+  id: SourceId;
+  name: string;
+  headers: string[];
+}
+
+interface MappingEditorProps {
+  profile: MergeProfile;
+  profiles: MergeProfile[];
+  sources: MappingSourceInfo[];
+  // Effective precedence: the profile order plus any sources it does not list yet
+  sourceOrder: SourceId[];
+  onChange: (profile: MergeProfile) => void;
+  onSave: (name: string) => void;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function MappingEditor({
+  profile,
+  profiles,
+  sources,
+  sourceOrder,
+  onChange,
+  onSave,
+  onSelect,
+  onDelete,
+}: MappingEditorProps) {
+  const [profileName, setProfileName] = React.useState(profile.name);
+
+  React.useEffect(() => {
+    setProfileName(profile.name);
+  }, [profile.id, profile.name]);
+
+  const sourceName = (id: SourceId) => sources.find(source => source.id === id)?.name ?? id;
+  const sourceHeaders = (id: SourceId) => sources.find(source => source.id === id)?.headers ?? [];
+
+  const missingColumns = findMissingColumns(
+    profile.fields,
+    Object.fromEntries(sources.map(source => [source.id, source.headers]))
+  );
+
+  const updateField = (index: number, changes: Partial<FieldMapping>) => {
+    onChange({
+      ...profile,
+      fields: profile.fields.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)),
+    });
+  };
+
+  const updateFieldSource = (index: number, position: number, changes: Partial<FieldSource>) => {
+    const mapping = profile.fields[index];
+    updateField(index, {
+      sources: mapping.sources.map((fieldSource, i) => {
+        if (i !== position) return fieldSource;
+        const updated = { ...fieldSource, ...changes };
+        // A different source rarely has the same column; keep it only if it exists there
+        if (changes.source && !sourceHeaders(changes.source).includes(updated.column)) {
+          updated.column = '';
+        }
+        return updated;
+      }),
+    });
+  };
+
+  const addFieldSource = (index: number) => {
+    const mapping = profile.fields[index];
+    const used = mapping.sources.map(fieldSource => fieldSource.source);
+    const next = sourceOrder.find(id => !used.includes(id)) ?? sourceOrder[0];
+    const column = sourceHeaders(next).includes(mapping.output) ? mapping.output : '';
+    updateField(index, { sources: [...mapping.sources, { source: next, column }] });
+  };
+
+  const moveSource = (position: number, offset: number) => {
+    const target = position + offset;
+    if (target < 0 || target >= sourceOrder.length) return;
+    const reordered = [...sourceOrder];
+    [reordered[position], reordered[target]] = [reordered[target], reordered[position]];
+    onChange({ ...profile, sourceOrder: reordered });
+  };
+
+  const applySourceOrder = () => {
+    onChange({
+      ...profile,
+      sourceOrder,
+      fields: profile.fields.map(mapping => ({
+        ...mapping,
+        sources: orderFieldSources(mapping.sources, sourceOrder),
+      })),
+    });
+  };
+
+  const addField = () => {
+    onChange({
+      ...profile,
+      fields: [
+        ...profile.fields,
+        {
+          output: `Column ${profile.fields.length + 1}`,
+          sources: [{ source: sourceOrder[0], column: '' }],
+          transform: 'none',
+        },
+      ],
+    });
+  };
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Profile</label>
+          <select
+            value={profile.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="default">Default</option>
+            {profiles.map(saved => (
+              <option key={saved.id} value={saved.id}>{saved.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Profile name</label>
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          />
+        </div>
+        <button
+          onClick={() => onSave(profileName.trim() || 'Untitled')}
+          className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          Save Profile
+        </button>
+        {profile.id !== 'default' && (
+          <button
+            onClick={() => onDelete(profile.id)}
+            className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-gray-600 hover:text-red-600 hover:bg-red-50 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <p className="text-xs font-medium text-gray-500 uppercase mb-2">Source precedence</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {sourceOrder.map((id, position) => (
+            <div key={id} className="flex items-center gap-1 rounded border border-gray-200 px-2 py-1 text-sm">
+              <span className="text-xs text-gray-400">{position + 1}.</span>
+              <span className="text-gray-700">{sourceName(id)}</span>
+              <button onClick={() => moveSource(position, -1)} className="p-0.5 text-gray-400 hover:text-gray-700" title="Higher precedence">
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => moveSource(position, 1)} className="p-0.5 text-gray-400 hover:text-gray-700" title="Lower precedence">
+                <ArrowDown className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={applySourceOrder}
+            className="py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+          >
+            Apply order to all columns
+          </button>
+        </div>
+      </div>
+
+      {missingColumns.length > 0 && (
+        <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {missingColumns.length} mapped column(s) not found in the uploaded files:{' '}
+          {missingColumns.map(missing => `${missing.output} ← ${sourceName(missing.source)} "${missing.column}"`).join(', ')}
+        </div>
+      )}
+
+      <div className="overflow-x-auto max-h-[400px]">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="sticky top-0 bg-gray-50 px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Output column</th>
+              <th className="sticky top-0 bg-gray-50 px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Source columns (first non-empty wins)</th>
+              <th className="sticky top-0 bg-gray-50 px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Transform</th>
+              <th className="sticky top-0 bg-gray-50 px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {profile.fields.map((mapping, index) => (
+              <tr key={index} className="align-top">
+                <td className="px-2 py-1">
+                  <input
+                    type="text"
+                    value={mapping.output}
+                    onChange={(e) => updateField(index, { output: e.target.value })}
+                    className="w-full rounded border border-gray-300 px-2 py-1 text-sm"
+                  />
+                </td>
+                <td className="px-2 py-1 space-y-1 min-w-[360px]">
+                  {mapping.sources.map((fieldSource, position) => (
+                    <div key={position} className="flex items-center gap-1">
+                      <span className="w-4 text-xs text-gray-400">{position + 1}.</span>
+                      <select
+                        value={fieldSource.source}
+                        onChange={(e) => updateFieldSource(index, position, { source: e.target.value })}
+                        className="w-40 rounded border border-gray-300 px-2 py-1 text-sm"
+                      >
+                        {!sourceOrder.includes(fieldSource.source) && (
+                          <option value={fieldSource.source}>{fieldSource.source} (not loaded)</option>
+                        )}
+                        {sourceOrder.map(id => (
+                          <option key={id} value={id}>{sourceName(id)}</option>
+                        ))}
+                      </select>
+                      <ColumnSelect
+                        value={fieldSource.column}
+                        options={sourceHeaders(fieldSource.source)}
+                        onChange={(column) => updateFieldSource(index, position, { column })}
+                      />
+                      <button
+                        onClick={() => updateField(index, { sources: mapping.sources.filter((_, i) => i !== position) })}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Remove source column"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => addFieldSource(index)}
+                    className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add fallback
+                  </button>
+                </td>
+                <td className="px-2 py-1">
+                  <select
+                    value={mapping.transform}
+                    onChange={(e) => updateField(index, { transform: e.target.value as FieldTransform })}
+                    className="w-full rounded border border-gray-300 px-2 py-1 text-sm"
+                  >
+                    {(Object.keys(TRANSFORM_LABELS) as FieldTransform[]).map(transform => (
+                      <option key={transform} value={transform}>{TRANSFORM_LABELS[transform]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-2 py-1 text-right">
+                  <button
+                    onClick={() => onChange({ ...profile, fields: profile.fields.filter((_, i) => i !== index) })}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove column"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={addField}
+        className="mt-3 flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Column
+      </button>
+    </div>
+  );
+}
+
+export default MappingEditor;
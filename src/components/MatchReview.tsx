@@ -0,0 +1,146 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import {
+  MatchPair,
+  MatchingSettings,
+  MATCH_METHOD_LABELS,
+  matchKey,
+} from '../services/matching';
+
+interface MatchReviewProps {
+  candidates: MatchPair[];
+  applied: MatchPair[];
+  settings: MatchingSettings;
+  onSettingsChange: (settings: MatchingSettings) => void;
+  onReject: (pair: MatchPair) => void;
+  onApply: (pairs: MatchPair[]) => void;
+}
+
+const confidenceColor = (confidence: number) =>
+  confidence >= 0.9 ? 'text-green-600' : confidence >= 0.75 ? 'text-amber-600' : 'text-red-600';
+
+function MatchReview({ candidates, applied, settings, onSettingsChange, onReject, onApply }: MatchReviewProps) {
+  const [accepted, setAccepted] = React.useState<Set<string>>(new Set());
+
+  const toggleAccepted = (pair: MatchPair) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      const key = matchKey(pair);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const acceptedPairs = candidates.filter(pair => accepted.has(matchKey(pair)));
+
+  const handleApply = () => {
+    onApply(acceptedPairs);
+    setAccepted(new Set());
+  };
+
+  return (
+    <div className="mb-4 border rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-4 mb-3">
+        <h4 className="text-sm font-medium text-gray-700">Secondary Matching</h4>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={settings.useEan}
+            onChange={(e) => onSettingsChange({ ...settings, useEan: e.target.checked })}
+          />
+          Match on EAN
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Max SKU edit distance
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={settings.maxEditDistance}
+            onChange={(e) => onSettingsChange({ ...settings, maxEditDistance: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-16 rounded border border-gray-300 px-2 py-1 text-sm"
+          />
+        </label>
+        {applied.length > 0 && (
+          <span className="text-xs text-gray-500">{applied.length} secondary match(es) applied</span>
+        )}
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-gray-500">No candidate pairs among the unmatched SKUs.</p>
+      ) : (
+        <>
+          <div className="overflow-auto max-h-[300px]">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="sticky top-0 bg-gray-50 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">DE SKU</th>
+                  <th className="sticky top-0 bg-gray-50 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product Info SKU</th>
+                  <th className="sticky top-0 bg-gray-50 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Method</th>
+                  <th className="sticky top-0 bg-gray-50 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Confidence</th>
+                  <th className="sticky top-0 bg-gray-50 px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {candidates.map(pair => {
+                  const isAccepted = accepted.has(matchKey(pair));
+                  return (
+                    <tr key={matchKey(pair)} className={isAccepted ? 'bg-green-50' : ''}>
+                      <td className="px-3 py-2 font-mono text-gray-700">{pair.deSku}</td>
+                      <td className="px-3 py-2 font-mono text-gray-700">{pair.productSku}</td>
+                      <td className="px-3 py-2 text-gray-500">{MATCH_METHOD_LABELS[pair.method]}</td>
+                      <td className={`px-3 py-2 font-medium ${confidenceColor(pair.confidence)}`}>
+                        {Math.round(pair.confidence * 100)}%
+                      </td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => toggleAccepted(pair)}
+                          className={`p-1 rounded ${isAccepted ? 'text-green-600 bg-green-100' : 'text-gray-400 hover:text-green-600'}`}
+                          title={isAccepted ? 'Undo accept' : 'Accept'}
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => onReject(pair)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Reject"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-3 flex justify-end gap-3">
+            <button
+              onClick={() => setAccepted(new Set(candidates.map(matchKey)))}
+              className="py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+            >
+              Accept all
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={acceptedPairs.length === 0}
+              className={`py-1 px-4 rounded-lg text-sm font-medium transition-colors ${
+                acceptedPairs.length > 0
+                  ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                  : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              Apply {acceptedPairs.length} match(es)
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default MatchReview;
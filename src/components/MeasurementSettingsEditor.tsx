@@ -0,0 +1,68 @@
+import { LengthUnit, MEASUREMENT_COLUMNS, MeasurementSettings, WeightUnit } from '../services/units';
+
+interface MeasurementSettingsEditorProps {
+  settings: MeasurementSettings;
+  onChange: (settings: MeasurementSettings) => void;
+}
+
+function MeasurementSettingsEditor({ settings, onChange }: MeasurementSettingsEditorProps) {
+  const columns = MEASUREMENT_COLUMNS;
+
+  return (
+    <div className="border rounded-lg p-4">
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+        Read measurements as numbers
+      </label>
+      <p className="mt-1 text-xs text-gray-500">
+        Reads decimal commas and points in {columns.packageLength}/{columns.packageWidth}/{columns.packageHeight},{' '}
+        {columns.netWeight}, {columns.grossWeight} and {columns.volume}, splits "{columns.productSize}" such as
+        "12 x 30 x 4" into Length, Width and Height columns, fills in a missing volume from the package size
+        and flags rows that cannot be read or whose volume does not match.
+      </p>
+
+      {settings.enabled && (
+        <div className="mt-3 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Lengths in</label>
+            <select
+              value={settings.lengthUnit}
+              onChange={(e) => onChange({ ...settings, lengthUnit: e.target.value as LengthUnit })}
+              className="rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              <option value="cm">cm</option>
+              <option value="mm">mm</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Weights in</label>
+            <select
+              value={settings.weightUnit}
+              onChange={(e) => onChange({ ...settings, weightUnit: e.target.value as WeightUnit })}
+              className="rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              <option value="kg">kg</option>
+              <option value="g">g</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Volume tolerance (%)</label>
+            <input
+              type="number"
+              min={0}
+              value={settings.volumeTolerance}
+              onChange={(e) => onChange({ ...settings, volumeTolerance: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-24 rounded border border-gray-300 px-2 py-1 text-sm"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MeasurementSettingsEditor;
@@ -0,0 +1,82 @@
+import { Download } from 'lucide-react';
+import {
+  MergeReport,
+  ReportCategory,
+  REPORT_CATEGORY_LABELS,
+  getReportCount,
+} from '../services/report';
+
+interface MergeReportPanelProps {
+  report: MergeReport;
+  activeFilter: ReportCategory | null;
+  onFilter: (category: ReportCategory | null) => void;
+  onExport: (category: ReportCategory, format: 'csv' | 'xlsx') => void;
+}
+
+const CATEGORY_COLORS: Record<ReportCategory, string> = {
+  matched: 'text-green-600',
+  deOnly: 'text-amber-600',
+  productOnly: 'text-amber-600',
+  otherOnly: 'text-amber-600',
+  skipped: 'text-red-600',
+  duplicates: 'text-purple-600',
+  measurements: 'text-red-600',
+  unmappedCategories: 'text-amber-600',
+};
+
+function MergeReportPanel({ report, activeFilter, onFilter, onExport }: MergeReportPanelProps) {
+  return (
+    <div className="mb-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
+        {(Object.keys(REPORT_CATEGORY_LABELS) as ReportCategory[]).map(category => {
+          const count = getReportCount(report, category);
+          const isActive = activeFilter === category;
+          return (
+            <div
+              key={category}
+              className={`rounded-lg border p-3 transition-colors ${
+                isActive ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+              }`}
+            >
+              <button
+                onClick={() => onFilter(isActive ? null : category)}
+                disabled={count === 0}
+                className="w-full text-left disabled:cursor-not-allowed"
+                title={isActive ? 'Show all rows' : 'Show only these rows'}
+              >
+                <p className="text-xs font-medium text-gray-500 uppercase">{REPORT_CATEGORY_LABELS[category]}</p>
+                <p className={`text-2xl font-semibold ${count > 0 ? CATEGORY_COLORS[category] : 'text-gray-300'}`}>
+                  {count}
+                </p>
+              </button>
+              {count > 0 && (
+                <div className="mt-2 flex gap-2">
+                  {(['csv', 'xlsx'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => onExport(category, format)}
+                      className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      <Download className="w-3 h-3" />
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {activeFilter && (
+        <p className="mt-2 text-sm text-gray-600">
+          Showing {REPORT_CATEGORY_LABELS[activeFilter].toLowerCase()} only.{' '}
+          <button onClick={() => onFilter(null)} className="text-blue-600 hover:text-blue-800">
+            Show all rows
+          </button>
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default MergeReportPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { ChevronDown, ChevronRight, Redo2, RotateCcw, Undo2 } from 'lucide-react';
+import { CellOverride, overrideKey } from '../services/overrides';
+
+interface OverridesPanelProps {
+  overrides: CellOverride[];
+  // SKUs in the current merged data; overrides for other SKUs wait for the product to come back
+  mergedSkus: Set<string>;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (override: CellOverride) => void;
+}
+
+const formatValue = (value: unknown) => {
+  const text = String(value ?? '');
+  return text === '' ? <span className="text-gray-400">(empty)</span> : text;
+};
+
+function OverridesPanel({ overrides, mergedSkus, canUndo, canRedo, onUndo, onRedo, onRevert }: OverridesPanelProps) {
+  const [expanded, setExpanded] = React.useState(false);
+  const sorted = React.useMemo(
+    () => [...overrides].sort((a, b) => a.sku.localeCompare(b.sku) || a.column.localeCompare(b.column)),
+    [overrides]
+  );
+
+  const buttonClass =
+    'flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-4 border rounded-lg">
+      <div className="flex flex-wrap items-center gap-3 p-3">
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-700"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          Manual edits ({overrides.length})
+        </button>
+        <span className="text-sm text-gray-500">
+          Double-click a cell to edit it. Edits are kept by SKU and reapplied after every merge.
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button onClick={onUndo} disabled={!canUndo} className={buttonClass}>
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className={buttonClass}>
+            <Redo2 className="w-4 h-4" />
+            Redo
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="border-t max-h-80 overflow-auto">
+          {sorted.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">No cells have been edited.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">SKU</th>
+                  <th className="px-3 py-2 text-left">Column</th>
+                  <th className="px-3 py-2 text-left">Merged value</th>
+                  <th className="px-3 py-2 text-left">Edited value</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sorted.map(override => (
+                  <tr key={overrideKey(override.sku, override.column)}>
+                    <td className="px-3 py-2 text-gray-900">
+                      {override.sku}
+                      {!mergedSkus.has(override.sku) && (
+                        <span className="ml-2 text-xs text-amber-600">not in merged data</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{override.column}</td>
+                    <td className="px-3 py-2 text-gray-500 max-w-[240px] truncate">{formatValue(override.original)}</td>
+                    <td className="px-3 py-2 text-amber-900 max-w-[240px] truncate">{formatValue(override.value)}</td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => onRevert(override)}
+                        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Revert
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default OverridesPanel;
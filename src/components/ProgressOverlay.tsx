@@ -0,0 +1,36 @@
+interface ProgressOverlayProps {
+  label: string;
+  // Percentage done, or undefined while it is not known yet
+  percent?: number;
+  onCancel?: () => void;
+}
+
+function ProgressOverlay({ label, percent, onCancel }: ProgressOverlayProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 flex flex-col items-center w-80">
+        {percent === undefined ? (
+          <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        ) : (
+          <div className="w-full">
+            <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="mt-2 text-center text-sm text-gray-500">{percent}%</p>
+          </div>
+        )}
+        <p className="mt-4 text-gray-700 font-medium">{label}</p>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-4 py-1 px-4 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProgressOverlay;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { Copy, Download, FolderOpen, Plus, Save, Trash2, Upload } from 'lucide-react';
+import { Project } from '../services/db';
+
+interface ProjectBarProps {
+  projects: Project[];
+  current: Project;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+function ProjectBar({
+  projects,
+  current,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}: ProjectBarProps) {
+  const [projectName, setProjectName] = React.useState(current.name);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    setProjectName(current.name);
+  }, [current.id, current.name]);
+
+  const buttonClass =
+    'flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100 transition-colors';
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Project</label>
+        <div className="flex items-center gap-2">
+          <FolderOpen className="w-4 h-4 text-gray-400" />
+          <select
+            value={current.id}
+            onChange={(e) => onSelect(e.target.value)}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Project name</label>
+        <input
+          type="text"
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm"
+        />
+      </div>
+      {projectName.trim() !== current.name && (
+        <button
+          onClick={() => onRename(projectName.trim() || 'Untitled')}
+          className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          Rename
+        </button>
+      )}
+      <button onClick={onCreate} className={buttonClass}>
+        <Plus className="w-4 h-4" />
+        New
+      </button>
+      <button onClick={onDuplicate} className={buttonClass}>
+        <Copy className="w-4 h-4" />
+        Duplicate
+      </button>
+      <button onClick={onExport} className={buttonClass} title="Download the project as a .zip bundle">
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+      <button onClick={() => importInputRef.current?.click()} className={buttonClass} title="Open a project bundle">
+        <Upload className="w-4 h-4" />
+        Import
+      </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".zip"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) onImport(file);
+        }}
+      />
+      <button
+        onClick={onDelete}
+        className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-gray-600 hover:text-red-600 hover:bg-red-50 transition-colors"
+      >
+        <Trash2 className="w-4 h-4" />
+        Delete
+      </button>
+    </div>
+  );
+}
+
+export default ProjectBar;
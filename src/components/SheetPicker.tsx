@@ -0,0 +1,148 @@
+import React from 'react';
+import * as XLSX from 'xlsx';
+import { FileSpreadsheet } from 'lucide-react';
+import { ExcelImportOptions, parseWorkbook, summarizeSheets } from '../services/parse';
+
+interface SheetPickerProps {
+  fileName: string;
+  workbook: XLSX.WorkBook;
+  onConfirm: (options: ExcelImportOptions) => void;
+  onCancel: () => void;
+}
+
+function SheetPicker({ fileName, workbook, onConfirm, onCancel }: SheetPickerProps) {
+  const summaries = React.useMemo(() => summarizeSheets(workbook), [workbook]);
+  // Start with the sheet holding the most rows, which skips cover and notes sheets
+  const [selectedSheets, setSelectedSheets] = React.useState<string[]>(() => [
+    summaries.reduce((best, sheet) => (sheet.rowCount > best.rowCount ? sheet : best), summaries[0]).name,
+  ]);
+  const [previewSheet, setPreviewSheet] = React.useState(selectedSheets[0]);
+  const [headerRow, setHeaderRow] = React.useState<number | undefined>(undefined);
+
+  const preview = summaries.find(sheet => sheet.name === previewSheet) || summaries[0];
+  const previewHeaderRow = headerRow ?? preview.detectedHeaderRow;
+  const columnCount = Math.max(0, ...preview.preview.map(row => row.length));
+
+  // Keep the workbook order so concatenated rows follow the file
+  const options = React.useMemo<ExcelImportOptions>(() => ({
+    sheets: workbook.SheetNames.filter(name => selectedSheets.includes(name)),
+    headerRow,
+  }), [workbook, selectedSheets, headerRow]);
+
+  const result = React.useMemo(() => {
+    try {
+      return { rowCount: parseWorkbook(workbook, options).length, error: null };
+    } catch (error) {
+      return { rowCount: 0, error: error instanceof Error ? error.message : 'The selected sheets cannot be read.' };
+    }
+  }, [workbook, options]);
+
+  const toggleSheet = (name: string, selected: boolean) => {
+    setSelectedSheets(prev => (selected ? [...prev, name] : prev.filter(sheet => sheet !== name)));
+    if (selected) setPreviewSheet(name);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Choose sheets</h2>
+          <p className="text-sm text-gray-500">
+            {fileName} • Select one sheet, or several with the same columns to combine them.
+          </p>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-64 border-r overflow-auto divide-y">
+            {summaries.map(sheet => (
+              <li
+                key={sheet.name}
+                className={`flex items-center gap-2 px-3 py-2 text-sm cursor-pointer ${
+                  sheet.name === preview.name ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => setPreviewSheet(sheet.name)}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedSheets.includes(sheet.name)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => toggleSheet(sheet.name, e.target.checked)}
+                />
+                <FileSpreadsheet className="w-4 h-4 text-gray-400 shrink-0" />
+                <span className="truncate flex-1" title={sheet.name}>{sheet.name}</span>
+                <span className="text-xs text-gray-500">{sheet.rowCount} rows</span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 min-w-0 p-4 flex flex-col">
+            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-gray-600">
+              <span>
+                Header row: <strong>{previewHeaderRow + 1}</strong>
+                {headerRow === undefined ? ' (detected)' : ' (manual)'}
+              </span>
+              {headerRow !== undefined && (
+                <button
+                  onClick={() => setHeaderRow(undefined)}
+                  className="py-1 px-2 rounded text-blue-600 hover:bg-blue-50"
+                >
+                  Detect automatically
+                </button>
+              )}
+              <span className="text-gray-400">Click a row to use it as the header.</span>
+            </div>
+            <div className="overflow-auto border rounded">
+              <table className="min-w-full text-xs">
+                <tbody className="divide-y divide-gray-100">
+                  {preview.preview.map((row, index) => (
+                    <tr
+                      key={index}
+                      onClick={() => setHeaderRow(index)}
+                      className={`cursor-pointer ${
+                        index === previewHeaderRow
+                          ? 'bg-blue-100 font-semibold text-gray-900'
+                          : index < previewHeaderRow
+                            ? 'text-gray-300 hover:bg-gray-50'
+                            : 'text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      <td className="px-2 py-1 text-gray-400 text-right">{index + 1}</td>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <td key={i} className="px-2 py-1 truncate max-w-[160px]" title={row[i]}>
+                          {row[i]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex items-center justify-between gap-4">
+          <p className={`text-sm ${result.error ? 'text-red-600' : 'text-gray-600'}`}>
+            {result.error || `${result.rowCount} rows from ${options.sheets.length} sheet(s)`}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="py-2 px-4 rounded-lg font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(options)}
+              disabled={Boolean(result.error)}
+              className="py-2 px-4 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              Use {options.sheets.length === 1 ? 'Sheet' : 'Sheets'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SheetPicker;
@@ -0,0 +1,208 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react';
+import {
+  SkuRule,
+  SkuRuleType,
+  SkuRulesPreview,
+  SKU_RULE_LABELS,
+  createSkuRule,
+  formatLookupEntries,
+  getRuleError,
+  parseLookupEntries,
+} from '../services/skuRules';
+
+interface SkuRulesEditorProps {
+  rules: SkuRule[];
+  // The rules applied to the uploaded SKUs; null while they are read
+  preview: SkuRulesPreview | null;
+  onChange: (rules: SkuRule[]) => void;
+}
+
+const LookupEditor = ({ rule, onChange }: { rule: Extract<SkuRule, { type: 'lookup' }>; onChange: (rule: SkuRule) => void }) => {
+  // Keep the raw text locally so half-typed lines are not discarded while editing
+  const [text, setText] = React.useState(formatLookupEntries(rule.entries));
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => onChange({ ...rule, entries: parseLookupEntries(text) })}
+      placeholder={'OLD-SKU => NEW-SKU'}
+      rows={3}
+      className="w-full rounded border border-gray-300 px-2 py-1 text-sm font-mono"
+    />
+  );
+};
+
+function SkuRulesEditor({ rules, preview, onChange }: SkuRulesEditorProps) {
+  const [newRuleType, setNewRuleType] = React.useState<SkuRuleType>('regexStrip');
+
+  const updateRule = (index: number, rule: SkuRule) => {
+    onChange(rules.map((existing, i) => (i === index ? rule : existing)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const renderRuleSettings = (rule: SkuRule, index: number) => {
+    switch (rule.type) {
+      case 'regexStrip':
+        return (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={rule.pattern}
+              onChange={(e) => updateRule(index, { ...rule, pattern: e.target.value })}
+              placeholder="e.g. [-_]?[VR]\d+$"
+              className="flex-1 rounded border border-gray-300 px-2 py-1 text-sm font-mono"
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={rule.flags.includes('i')}
+                onChange={(e) => updateRule(index, { ...rule, flags: e.target.checked ? 'i' : '' })}
+              />
+              Ignore case
+            </label>
+          </div>
+        );
+      case 'caseFold':
+        return (
+          <select
+            value={rule.mode}
+            onChange={(e) => updateRule(index, { ...rule, mode: e.target.value as 'upper' | 'lower' })}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            <option value="upper">UPPERCASE</option>
+            <option value="lower">lowercase</option>
+          </select>
+        );
+      case 'zeroPad':
+        return (
+          <div className="flex gap-2 items-center">
+            <select
+              value={rule.mode}
+              onChange={(e) => updateRule(index, { ...rule, mode: e.target.value as 'pad' | 'trim' })}
+              className="rounded border border-gray-300 px-2 py-1 text-sm"
+            >
+              <option value="trim">Trim leading zeros</option>
+              <option value="pad">Pad numeric SKUs to length</option>
+            </select>
+            {rule.mode === 'pad' && (
+              <input
+                type="number"
+                min={1}
+                value={rule.length}
+                onChange={(e) => updateRule(index, { ...rule, length: Number(e.target.value) || 0 })}
+                className="w-20 rounded border border-gray-300 px-2 py-1 text-sm"
+              />
+            )}
+          </div>
+        );
+      case 'lookup':
+        return <LookupEditor key={rule.id} rule={rule} onChange={(updated) => updateRule(index, updated)} />;
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="space-y-2">
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">No rules — SKUs are only trimmed before matching.</p>
+        )}
+        {rules.map((rule, index) => {
+          const error = getRuleError(rule);
+          return (
+            <div key={rule.id} className={`flex gap-3 items-start rounded border p-2 ${rule.enabled ? 'border-gray-200' : 'border-gray-100 opacity-60'}`}>
+              <span className="mt-1 text-xs font-medium text-gray-400 w-5">{index + 1}.</span>
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(index, { ...rule, enabled: e.target.checked })}
+                className="mt-2"
+                title="Enabled"
+              />
+              <span className="mt-1 w-32 text-sm font-medium text-gray-700">{SKU_RULE_LABELS[rule.type]}</span>
+              <div className="flex-1">
+                {renderRuleSettings(rule, index)}
+                {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+              </div>
+              <div className="flex">
+                <button onClick={() => moveRule(index, -1)} className="p-1 text-gray-400 hover:text-gray-700" title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button onClick={() => moveRule(index, 1)} className="p-1 text-gray-400 hover:text-gray-700" title="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button onClick={() => onChange(rules.filter((_, i) => i !== index))} className="p-1 text-gray-400 hover:text-red-600" title="Remove rule">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        <select
+          value={newRuleType}
+          onChange={(e) => setNewRuleType(e.target.value as SkuRuleType)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm"
+        >
+          {(Object.keys(SKU_RULE_LABELS) as SkuRuleType[]).map(type => (
+            <option key={type} value={type}>{SKU_RULE_LABELS[type]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onChange([...rules, createSkuRule(newRuleType)])}
+          className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </button>
+      </div>
+
+      {preview ? (
+        <div className="mt-4">
+          <p className="text-sm text-gray-700 mb-2">
+            <span className="font-medium">{preview.matched}</span> of {preview.deCount} DE SKUs match one of {preview.productCount} Product Information SKUs
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'DE File', samples: preview.deSamples },
+              { label: 'Product Information', samples: preview.productSamples },
+            ].map(({ label, samples }) => (
+              <table key={label} className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase">{label}</th>
+                    <th className="px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase">Normalized</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {samples.map((sample, index) => (
+                    <tr key={index}>
+                      <td className="px-2 py-1 font-mono text-gray-500">{sample.raw}</td>
+                      <td className={`px-2 py-1 font-mono ${sample.matched ? 'text-green-600' : 'text-gray-700'}`}>
+                        {sample.normalized}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="mt-4 text-sm text-gray-500">Applying the rules to the uploaded SKUs...</p>
+      )}
+    </div>
+  );
+}
+
+export default SkuRulesEditor;
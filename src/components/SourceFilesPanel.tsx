@@ -0,0 +1,77 @@
+import { Plus, Upload, X } from 'lucide-react';
+import { FileData } from '../services/db';
+import { SourceRole, SOURCE_ROLE_LABELS } from '../services/mapping';
+
+interface SourceFilesPanelProps {
+  sources: FileData[];
+  onAdd: () => void;
+  onUpdate: (id: string, changes: Partial<FileData>) => void;
+  onFileSelected: (id: string, file: File) => void;
+  onRemove: (id: string) => void;
+}
+
+function SourceFilesPanel({ sources, onAdd, onUpdate, onFileSelected, onRemove }: SourceFilesPanelProps) {
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Additional Sources</label>
+        <button
+          onClick={onAdd}
+          className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Source
+        </button>
+      </div>
+      {sources.map(source => (
+        <div key={source.id} className="flex flex-wrap items-center gap-3 border rounded-lg p-3">
+          <input
+            type="text"
+            value={source.name}
+            onChange={(e) => onUpdate(source.id, { name: e.target.value })}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+            placeholder="Source name"
+          />
+          <select
+            value={source.role || 'other'}
+            onChange={(e) => onUpdate(source.id, { role: e.target.value as SourceRole })}
+            className="rounded border border-gray-300 px-2 py-1 text-sm"
+          >
+            {(Object.keys(SOURCE_ROLE_LABELS) as SourceRole[]).map(role => (
+              <option key={role} value={role}>{SOURCE_ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <label
+            className={`flex items-center gap-2 py-1 px-3 rounded-lg text-sm cursor-pointer border-2 border-dashed ${
+              source.rowCount !== undefined ? 'border-green-400 bg-green-50 text-green-600' : 'border-gray-300 text-gray-600 hover:border-blue-400'
+            }`}
+          >
+            <Upload className="w-4 h-4" />
+            {source.rowCount !== undefined
+              ? `${source.fileName || 'File'} • ${source.rowCount} rows`
+              : 'Choose CSV, XLS or XLSX'}
+            <input
+              type="file"
+              accept=".csv,.xls,.xlsx"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onFileSelected(source.id, file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={() => onRemove(source.id)}
+            className="ml-auto p-1 text-gray-400 hover:text-red-600"
+            title="Remove source"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SourceFilesPanel;
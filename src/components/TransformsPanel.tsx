@@ -0,0 +1,334 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Pencil, Plus, X } from 'lucide-react';
+import {
+  DataTransform,
+  DataTransformType,
+  DATA_TRANSFORM_LABELS,
+  EXPRESSION_FUNCTIONS,
+  TransformPreview,
+  createDataTransform,
+  getExpressionColumns,
+  getTransformError,
+  parseExpression,
+} from '../services/transforms';
+
+interface TransformsPanelProps {
+  transforms: DataTransform[];
+  rowCount: number;
+  columns: string[];
+  // Runs the draft over the merged rows, which already have the saved transforms applied
+  onPreview: (transform: DataTransform, limit: number) => Promise<TransformPreview>;
+  onChange: (transforms: DataTransform[]) => void;
+}
+
+const PREVIEW_SIZE = 10;
+
+// Every preview reads all merged rows, so it waits until typing pauses
+const PREVIEW_DELAY = 300;
+
+const formatValue = (value: unknown) => {
+  const text = String(value ?? '');
+  return text === '' ? <span className="text-gray-400">(empty)</span> : text;
+};
+
+const describeTransform = (transform: DataTransform) => {
+  switch (transform.type) {
+    case 'replace':
+      return `/${transform.pattern}/ → "${transform.replacement}" in ${transform.columns.join(', ') || 'no columns'}`;
+    case 'compute':
+      return `${transform.column} = ${transform.expression}`;
+    case 'compactImages':
+      return transform.dropDuplicates ? 'image1..image12 without gaps or repeated URLs' : 'image1..image12 without gaps';
+  }
+};
+
+// Column names the expression reads that the merged data does not have
+const getUnknownColumns = (transform: DataTransform, columns: string[]) => {
+  if (transform.type !== 'compute' || getTransformError(transform)) return [];
+  return getExpressionColumns(parseExpression(transform.expression)).filter(column => !columns.includes(column));
+};
+
+function TransformsPanel({ transforms, rowCount, columns, onPreview, onChange }: TransformsPanelProps) {
+  const [expanded, setExpanded] = React.useState(false);
+  const [draft, setDraft] = React.useState<DataTransform | null>(null);
+  const [preview, setPreview] = React.useState<TransformPreview | null>(null);
+  const onPreviewRef = React.useRef(onPreview);
+  onPreviewRef.current = onPreview;
+
+  const draftError = draft ? getTransformError(draft) : null;
+  const unknownColumns = draft ? getUnknownColumns(draft, columns) : [];
+
+  React.useEffect(() => {
+    setPreview(null);
+    if (!draft || draftError) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      onPreviewRef.current(draft, PREVIEW_SIZE)
+        .then(result => {
+          if (!cancelled) setPreview(result);
+        })
+        .catch(error => console.error('Error previewing transform:', error));
+    }, PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, draftError, rowCount]);
+
+  const updateTransform = (index: number, transform: DataTransform) => {
+    onChange(transforms.map((existing, i) => (i === index ? transform : existing)));
+  };
+
+  const moveTransform = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= transforms.length) return;
+    const reordered = [...transforms];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const saveDraft = () => {
+    if (!draft || draftError) return;
+    const exists = transforms.some(transform => transform.id === draft.id);
+    onChange(exists
+      ? transforms.map(transform => (transform.id === draft.id ? draft : transform))
+      : [...transforms, draft]);
+    setDraft(null);
+  };
+
+  const renderDraftSettings = (transform: DataTransform) => {
+    switch (transform.type) {
+      case 'replace':
+        return (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                value={transform.pattern}
+                onChange={(e) => setDraft({ ...transform, pattern: e.target.value })}
+                placeholder="Find (regular expression), e.g. \s*Supplier:.*$"
+                className="flex-1 min-w-[200px] rounded border border-gray-300 px-2 py-1 text-sm font-mono"
+              />
+              <input
+                type="text"
+                value={transform.replacement}
+                onChange={(e) => setDraft({ ...transform, replacement: e.target.value })}
+                placeholder="Replace with, $1 for a group"
+                className="flex-1 min-w-[200px] rounded border border-gray-300 px-2 py-1 text-sm font-mono"
+              />
+              <label className="flex items-center gap-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={transform.flags.includes('i')}
+                  onChange={(e) => setDraft({ ...transform, flags: e.target.checked ? 'i' : '' })}
+                />
+                Ignore case
+              </label>
+            </div>
+            <div className="mt-2 max-h-40 overflow-auto rounded border p-2 grid grid-cols-2 md:grid-cols-4 gap-1">
+              {columns.map(column => (
+                <label key={column} className="flex items-center gap-1 text-xs text-gray-700 truncate" title={column}>
+                  <input
+                    type="checkbox"
+                    checked={transform.columns.includes(column)}
+                    onChange={(e) => setDraft({
+                      ...transform,
+                      columns: e.target.checked
+                        ? [...transform.columns, column]
+                        : transform.columns.filter(existing => existing !== column),
+                    })}
+                  />
+                  {column}
+                </label>
+              ))}
+            </div>
+          </>
+        );
+      case 'compactImages':
+        return (
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={transform.dropDuplicates}
+              onChange={(e) => setDraft({ ...transform, dropDuplicates: e.target.checked })}
+            />
+            Also remove repeated URLs within a product
+          </label>
+        );
+      case 'compute':
+        return (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                value={transform.column}
+                onChange={(e) => setDraft({ ...transform, column: e.target.value })}
+                placeholder="Column, e.g. Title"
+                list="transform-columns"
+                className="w-48 rounded border border-gray-300 px-2 py-1 text-sm"
+              />
+              <datalist id="transform-columns">
+                {columns.map(column => <option key={column} value={column} />)}
+              </datalist>
+              <span className="self-center text-sm text-gray-500">=</span>
+              <input
+                type="text"
+                value={transform.expression}
+                onChange={(e) => setDraft({ ...transform, expression: e.target.value })}
+                placeholder={'e.g. join(" ", Brand, Material, title(Color))'}
+                className="flex-1 min-w-[240px] rounded border border-gray-300 px-2 py-1 text-sm font-mono"
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Use column names, [names with spaces], "text", numbers, + - * / and{' '}
+              {Object.values(EXPRESSION_FUNCTIONS).map(spec => spec.usage).join(', ')}.
+            </p>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="mb-4 border rounded-lg">
+      <div className="flex flex-wrap items-center gap-3 p-3">
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-700"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          Transforms ({transforms.filter(transform => transform.enabled).length})
+        </button>
+        <span className="text-sm text-gray-500">
+          Find/replace and computed columns run in order after every merge, before manual edits.
+        </span>
+      </div>
+
+      {expanded && (
+        <div className="border-t p-3">
+          <div className="space-y-2">
+            {transforms.length === 0 && <p className="text-sm text-gray-500">No transforms.</p>}
+            {transforms.map((transform, index) => {
+              const error = getTransformError(transform);
+              return (
+                <div
+                  key={transform.id}
+                  className={`flex gap-3 items-start rounded border p-2 ${transform.enabled ? 'border-gray-200' : 'border-gray-100 opacity-60'}`}
+                >
+                  <span className="mt-1 text-xs font-medium text-gray-400 w-5">{index + 1}.</span>
+                  <input
+                    type="checkbox"
+                    checked={transform.enabled}
+                    onChange={(e) => updateTransform(index, { ...transform, enabled: e.target.checked })}
+                    className="mt-2"
+                    title="Enabled"
+                  />
+                  <span className="mt-1 w-36 text-sm font-medium text-gray-700">{DATA_TRANSFORM_LABELS[transform.type]}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="mt-1 text-sm font-mono text-gray-600 truncate" title={describeTransform(transform)}>
+                      {describeTransform(transform)}
+                    </p>
+                    {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+                  </div>
+                  <div className="flex">
+                    <button onClick={() => setDraft(transform)} className="p-1 text-gray-400 hover:text-gray-700" title="Edit">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveTransform(index, -1)} className="p-1 text-gray-400 hover:text-gray-700" title="Move up">
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveTransform(index, 1)} className="p-1 text-gray-400 hover:text-gray-700" title="Move down">
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onChange(transforms.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Remove transform"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {draft ? (
+            <div className="mt-3 rounded border border-blue-200 bg-blue-50/30 p-3">
+              <p className="mb-2 text-sm font-medium text-gray-700">{DATA_TRANSFORM_LABELS[draft.type]}</p>
+              {renderDraftSettings(draft)}
+              {draftError && <p className="mt-2 text-xs text-red-600">{draftError}</p>}
+              {unknownColumns.length > 0 && (
+                <p className="mt-2 text-xs text-amber-600">
+                  Not in the merged data, read as empty: {unknownColumns.join(', ')}
+                </p>
+              )}
+
+              {preview && (
+                <div className="mt-3">
+                  <p className="text-sm text-gray-700 mb-2">
+                    Changes <span className="font-medium">{preview.affectedRows}</span> of {rowCount} rows
+                  </p>
+                  {preview.samples.length > 0 && (
+                    <div className="max-h-64 overflow-auto">
+                      <table className="min-w-full text-sm">
+                        <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase">
+                          <tr>
+                            <th className="px-2 py-1 text-left">SKU</th>
+                            <th className="px-2 py-1 text-left">Column</th>
+                            <th className="px-2 py-1 text-left">Before</th>
+                            <th className="px-2 py-1 text-left">After</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {preview.samples.map((sample, index) => (
+                            <tr key={index}>
+                              <td className="px-2 py-1 text-gray-900">{sample.sku}</td>
+                              <td className="px-2 py-1 text-gray-600">{sample.column}</td>
+                              <td className="px-2 py-1 text-gray-500 max-w-[240px] truncate">{formatValue(sample.before)}</td>
+                              <td className="px-2 py-1 text-green-700 max-w-[240px] truncate">{formatValue(sample.after)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="mt-3 flex gap-2">
+                <button
+                  onClick={saveDraft}
+                  disabled={Boolean(draftError)}
+                  className="py-1 px-3 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {transforms.some(transform => transform.id === draft.id) ? 'Save and rerun' : 'Add and run'}
+                </button>
+                <button
+                  onClick={() => setDraft(null)}
+                  className="py-1 px-3 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-3 flex gap-2">
+              {(Object.keys(DATA_TRANSFORM_LABELS) as DataTransformType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setDraft(createDataTransform(type))}
+                  className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  {DATA_TRANSFORM_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TransformsPanel;
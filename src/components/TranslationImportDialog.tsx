@@ -0,0 +1,119 @@
+import { LanguageSource, TranslationImport } from '../services/translationImport';
+import { TRANSLATION_LANGUAGES, TranslationLanguage } from '../services/translations';
+
+interface TranslationImportDialogProps {
+  upload: TranslationImport;
+  onConfirm: (upload: TranslationImport) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const SOURCE_LABELS: Record<LanguageSource, string> = {
+  header: 'from the column header',
+  text: 'from the text',
+  files: 'the file alone fits several languages; taken from the other files',
+};
+
+const languageLabel = (code: TranslationLanguage) =>
+  TRANSLATION_LANGUAGES.find(language => language.code === code)?.label ?? code;
+
+function TranslationImportDialog({ upload, onConfirm, onCancel }: TranslationImportDialogProps) {
+  const label = languageLabel(upload.language);
+  const hasRowIndex = upload.rows.some(row => row.row_index !== undefined);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-xl shadow-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Confirm translation upload</h2>
+          <p className="text-sm text-gray-500">
+            {label} translations of <strong>{upload.column}</strong> • {upload.rows.length} SKUs
+            {upload.skipped > 0 && ` • ${upload.skipped} rows without a SKU skipped`}
+          </p>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto p-4 space-y-4">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">File</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Column</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Language</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rows</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {upload.files.map(({ name, detection, rowCount }) => (
+                <tr key={name}>
+                  <td className="px-2 py-1 text-gray-900">{name}</td>
+                  <td className="px-2 py-1 text-gray-700">
+                    "{detection.header}" → {detection.column}
+                    <span className="block text-xs text-gray-500">
+                      SKU from "{detection.skuHeader}"
+                      {detection.rowIndexHeader ? `, row index from "${detection.rowIndexHeader}"` : ', no row index'}
+                    </span>
+                  </td>
+                  <td className="px-2 py-1 text-gray-700">
+                    {label}
+                    {detection.languageSource && (
+                      <span
+                        className={`block text-xs ${detection.languageSource === 'files' ? 'text-amber-700' : 'text-gray-500'}`}
+                      >
+                        {SOURCE_LABELS[detection.languageSource]}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 text-right text-gray-500">{rowCount}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <p className="text-sm text-gray-700 mb-2">Preview</p>
+            <div className="overflow-auto border rounded">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {hasRowIndex && <th className="px-2 py-1 text-left font-medium text-gray-500">row_index</th>}
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">SKU</th>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">{upload.column}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {upload.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index} className="text-gray-600">
+                      {hasRowIndex && <td className="px-2 py-1">{String(row.row_index ?? '')}</td>}
+                      <td className="px-2 py-1">{String(row.SKU)}</td>
+                      <td className="px-2 py-1 truncate max-w-[420px]" title={String(row[upload.column] ?? '')}>
+                        {String(row[upload.column] ?? '')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="py-2 px-4 rounded-lg font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(upload)}
+            className="py-2 px-4 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+          >
+            Use as {label} {upload.column}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TranslationImportDialog;
@@ -0,0 +1,263 @@
+import React from 'react';
+import { Download, Trash2, Upload } from 'lucide-react';
+import {
+  COVERAGE_ISSUE_LABELS,
+  CoverageIssue,
+  LanguageTranslations,
+  TRANSLATABLE_COLUMNS,
+  TRANSLATION_LANGUAGES,
+  TranslationCoverage,
+  TranslationLanguage,
+} from '../services/translations';
+
+interface TranslationsPanelProps {
+  language: TranslationLanguage;
+  translations: LanguageTranslations;
+  // Uploads of the selected language checked against the merged data
+  coverage: TranslationCoverage | null;
+  // Languages with a generated table
+  generated: TranslationLanguage[];
+  isGenerating: boolean;
+  onLanguageChange: (language: TranslationLanguage) => void;
+  onUpload: (files: File[], column: string) => void;
+  onClearUploads: () => void;
+  onGenerate: () => void;
+  onDownloadAll: () => void;
+  onExportIssues: (column: string) => void;
+}
+
+// SKUs listed under an opened issue; the download has all of them
+const LISTED_ENTRIES = 20;
+
+const percent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+
+function TranslationsPanel({
+  language,
+  translations,
+  coverage,
+  generated,
+  isGenerating,
+  onLanguageChange,
+  onUpload,
+  onClearUploads,
+  onGenerate,
+  onDownloadAll,
+  onExportIssues,
+}: TranslationsPanelProps) {
+  const [opened, setOpened] = React.useState<{ column: string; issue: CoverageIssue } | null>(null);
+  const uploads = translations[language] || {};
+  const hasUploads = Object.keys(uploads).length > 0;
+  const anyUploads = TRANSLATION_LANGUAGES.some(({ code }) => Object.keys(translations[code] || {}).length > 0);
+  const label = TRANSLATION_LANGUAGES.find(({ code }) => code === language)?.label ?? language;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {TRANSLATION_LANGUAGES.map(({ code, label }) => {
+          const columns = Object.keys(translations[code] || {}).length;
+          return (
+            <button
+              key={code}
+              onClick={() => onLanguageChange(code)}
+              className={`py-1 px-3 rounded-lg text-sm font-medium transition-colors ${
+                code === language ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+              <span className={`ml-2 text-xs ${code === language ? 'text-purple-100' : 'text-gray-500'}`}>
+                {columns}/{TRANSLATABLE_COLUMNS.length}
+                {generated.includes(code) && ' · table'}
+              </span>
+            </button>
+          );
+        })}
+        <button
+          onClick={onDownloadAll}
+          disabled={!anyUploads}
+          className={`ml-auto flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium transition-colors ${
+            anyUploads ? 'text-blue-600 hover:bg-blue-50' : 'text-gray-400 cursor-not-allowed'
+          }`}
+          title="The merged data with one column per language after each translated column"
+        >
+          <Download className="w-4 h-4" />
+          Download all languages (XLSX)
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {TRANSLATABLE_COLUMNS.map((column) => {
+          const inputId = `translated-${language}-${column.toLowerCase()}`;
+          const rows = uploads[column];
+          const translated = coverage?.columns[column]?.translated ?? 0;
+          const total = coverage?.total ?? 0;
+          return (
+            <div key={column} className="border rounded-lg p-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {column} ({label})
+                {column === 'description' && (
+                  <span className="ml-2 text-xs text-gray-500">(Multiple files allowed)</span>
+                )}
+              </label>
+              <div
+                className={`border-2 border-dashed rounded-lg p-4 transition-colors ${
+                  rows ? 'border-green-400 bg-green-50' : 'border-gray-300 hover:border-blue-400'
+                } cursor-pointer`}
+                onClick={() => document.getElementById(inputId)?.click()}
+              >
+                <div className="flex flex-col items-center">
+                  <Upload className={`w-8 h-8 mb-2 ${rows ? 'text-green-500' : 'text-gray-400'}`} />
+                  <input
+                    type="file"
+                    accept=".xlsx"
+                    multiple={column === 'description'}
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files || []);
+                      if (files.length > 0) onUpload(files, column);
+                      e.target.value = '';
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    className="hidden"
+                    id={inputId}
+                  />
+                  <p className="text-sm text-center">
+                    {rows ? (
+                      <span className="font-medium text-green-600">{rows.length} rows loaded</span>
+                    ) : (
+                      <span className="font-medium text-gray-700">
+                        Upload translated {column}
+                        {column === 'description' && (
+                          <span className="block text-xs text-gray-500 mt-1">Select all description_*.xlsx files</span>
+                        )}
+                      </span>
+                    )}
+                  </p>
+                </div>
+              </div>
+              <div className="mt-2">
+                <div className="h-1.5 rounded bg-gray-100">
+                  <div className="h-1.5 rounded bg-purple-500" style={{ width: `${percent(translated, total)}%` }} />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {translated} of {total} SKUs translated ({percent(translated, total)}%)
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {coverage && Object.keys(coverage.columns).length > 0 && (
+        <div className="mt-6">
+          <p className="text-sm font-medium text-gray-700 mb-2">{label} coverage</p>
+          <div className="overflow-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Column</th>
+                  {(Object.keys(COVERAGE_ISSUE_LABELS) as CoverageIssue[]).map(issue => (
+                    <th key={issue} className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                      {COVERAGE_ISSUE_LABELS[issue]}
+                    </th>
+                  ))}
+                  <th className="px-2 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {TRANSLATABLE_COLUMNS.filter(column => coverage.columns[column]).map(column => {
+                  const { issues } = coverage.columns[column];
+                  const issueCount = Object.values(issues).reduce((sum, entries) => sum + entries.length, 0);
+                  return (
+                    <tr key={column}>
+                      <td className="px-2 py-1 text-gray-900">{column}</td>
+                      {(Object.keys(COVERAGE_ISSUE_LABELS) as CoverageIssue[]).map(issue => {
+                        const isOpen = opened?.column === column && opened.issue === issue;
+                        return (
+                          <td key={issue} className="px-2 py-1 text-right">
+                            <button
+                              onClick={() => setOpened(isOpen ? null : { column, issue })}
+                              disabled={issues[issue].length === 0}
+                              className={`rounded px-1 ${
+                                issues[issue].length === 0
+                                  ? 'text-gray-300 cursor-default'
+                                  : `text-amber-700 hover:bg-amber-50 ${isOpen ? 'bg-amber-100' : ''}`
+                              }`}
+                            >
+                              {issues[issue].length}
+                            </button>
+                          </td>
+                        );
+                      })}
+                      <td className="px-2 py-1 text-right">
+                        {issueCount > 0 && (
+                          <button
+                            onClick={() => onExportIssues(column)}
+                            className="flex items-center gap-1 ml-auto text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            <Download className="w-3 h-3" />
+                            CSV
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {opened && coverage.columns[opened.column] && (
+            <div className="mt-2 rounded border bg-gray-50 p-3 text-xs text-gray-700">
+              <p className="font-medium mb-1">
+                {opened.column}: {COVERAGE_ISSUE_LABELS[opened.issue]}
+              </p>
+              <ul className="space-y-0.5">
+                {coverage.columns[opened.column].issues[opened.issue].slice(0, LISTED_ENTRIES).map((entry, index) => (
+                  <li key={index} className="truncate">
+                    <span className="font-mono">{String(entry.sku)}</span>
+                    {opened.issue === 'misplaced' && (
+                      <span className="text-gray-500">
+                        {' '}— row_index {String(entry.rowIndex)} is {String(entry.skuAtRowIndex) || 'outside the merged data'}
+                      </span>
+                    )}
+                    {(opened.issue === 'missing' || opened.issue === 'unchanged') && (
+                      <span className="text-gray-500"> — {String(entry.source ?? '')}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {coverage.columns[opened.column].issues[opened.issue].length > LISTED_ENTRIES && (
+                <p className="mt-1 text-gray-500">
+                  and {coverage.columns[opened.column].issues[opened.issue].length - LISTED_ENTRIES} more in the CSV
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-center gap-2">
+        <button
+          onClick={onGenerate}
+          disabled={!hasUploads || isGenerating}
+          className={`py-3 px-8 rounded-lg font-medium transition-colors ${
+            hasUploads && !isGenerating
+              ? 'bg-purple-600 hover:bg-purple-700 text-white'
+              : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+          }`}
+        >
+          {isGenerating ? 'Generating Table...' : `Generate ${label} Table`}
+        </button>
+        {hasUploads && (
+          <button
+            onClick={onClearUploads}
+            className="flex items-center gap-1 py-3 px-4 rounded-lg font-medium text-gray-600 hover:text-red-600 hover:bg-red-50 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear {label} uploads
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TranslationsPanel;
@@ -0,0 +1,142 @@
+import React from 'react';
+import { AlertTriangle, Download, XCircle } from 'lucide-react';
+import { ISSUE_CODE_LABELS, IssueCode, IssueSeverity, ValidationIssue } from '../services/validation';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  warningsAcknowledged: boolean;
+  onAcknowledgeWarnings: (acknowledged: boolean) => void;
+  onExport: (issues: ValidationIssue[], format: 'csv' | 'xlsx') => void;
+}
+
+const MAX_VISIBLE = 500;
+
+function ValidationPanel({ issues, warningsAcknowledged, onAcknowledgeWarnings, onExport }: ValidationPanelProps) {
+  const [sourceFilter, setSourceFilter] = React.useState('');
+  const [severityFilter, setSeverityFilter] = React.useState<IssueSeverity | ''>('');
+  const [codeFilter, setCodeFilter] = React.useState<IssueCode | ''>('');
+
+  const sources = Array.from(new Set(issues.map(issue => issue.source)));
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  const filtered = issues.filter(issue =>
+    (!sourceFilter || issue.source === sourceFilter) &&
+    (!severityFilter || issue.severity === severityFilter) &&
+    (!codeFilter || issue.code === codeFilter)
+  );
+
+  if (issues.length === 0) {
+    return (
+      <div className="border rounded-lg p-4 text-sm text-green-700 bg-green-50">
+        All uploaded files passed validation.
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+        <span className="flex items-center gap-1 text-red-600">
+          <XCircle className="w-4 h-4" />
+          {errorCount} error(s)
+        </span>
+        <span className="flex items-center gap-1 text-amber-600">
+          <AlertTriangle className="w-4 h-4" />
+          {warningCount} warning(s)
+        </span>
+        {errorCount > 0 ? (
+          <span className="text-gray-600">Fix the errors and upload the files again to merge.</span>
+        ) : (
+          <label className="flex items-center gap-2 text-gray-600">
+            <input
+              type="checkbox"
+              checked={warningsAcknowledged}
+              onChange={(e) => onAcknowledgeWarnings(e.target.checked)}
+            />
+            Merge despite warnings
+          </label>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={sourceFilter}
+          onChange={(e) => setSourceFilter(e.target.value)}
+          className="rounded border border-gray-300 px-2 py-1 text-sm"
+        >
+          <option value="">All files</option>
+          {sources.map(source => (
+            <option key={source} value={source}>{source}</option>
+          ))}
+        </select>
+        <select
+          value={severityFilter}
+          onChange={(e) => setSeverityFilter(e.target.value as IssueSeverity | '')}
+          className="rounded border border-gray-300 px-2 py-1 text-sm"
+        >
+          <option value="">All severities</option>
+          <option value="error">Errors</option>
+          <option value="warning">Warnings</option>
+        </select>
+        <select
+          value={codeFilter}
+          onChange={(e) => setCodeFilter(e.target.value as IssueCode | '')}
+          className="rounded border border-gray-300 px-2 py-1 text-sm"
+        >
+          <option value="">All issues</option>
+          {(Object.keys(ISSUE_CODE_LABELS) as IssueCode[]).map(code => (
+            <option key={code} value={code}>{ISSUE_CODE_LABELS[code]}</option>
+          ))}
+        </select>
+        <div className="ml-auto flex gap-2">
+          {(['csv', 'xlsx'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => onExport(filtered, format)}
+              disabled={filtered.length === 0}
+              className="flex items-center gap-1 py-1 px-3 rounded-lg text-sm font-medium text-blue-600 hover:bg-blue-50 transition-colors disabled:text-gray-400"
+            >
+              <Download className="w-4 h-4" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-[400px]">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['File', 'Row', 'Column', 'Value', 'Issue'].map(header => (
+                <th key={header} className="sticky top-0 bg-gray-50 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filtered.slice(0, MAX_VISIBLE).map((issue, index) => (
+              <tr key={index}>
+                <td className="px-3 py-1 text-gray-700">{issue.source}</td>
+                <td className="px-3 py-1 text-gray-500">{issue.row ?? '—'}</td>
+                <td className="px-3 py-1 text-gray-700">{issue.column}</td>
+                <td className="px-3 py-1 font-mono text-gray-500 truncate max-w-[200px]" title={issue.value}>{issue.value}</td>
+                <td className={`px-3 py-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                  {issue.message}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {filtered.length > MAX_VISIBLE && (
+        <p className="mt-2 text-sm text-gray-500">
+          Showing the first {MAX_VISIBLE} of {filtered.length} issues. Export the list to see all of them.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ValidationPanel;
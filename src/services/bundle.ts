@@ -0,0 +1,175 @@
+import JSZip from 'jszip';
+import { DBService, DB_VERSION, FileData, Project } from './db';
+import { MergeProfile, withProfileDefaults } from './mapping';
+import { LEGACY_TRANSLATION_LANGUAGE, LanguageTranslations, TranslatedColumns, translatedTableId } from './translations';
+import { CellOverride } from './overrides';
+import { DataTransform } from './transforms';
+import { MatchDecisions } from './matching';
+import { DataRow } from '../types';
+
+// Bumped whenever the layout of the archive changes; older bundles must keep importing
+export const BUNDLE_VERSION = 2;
+
+const BUNDLE_FORMAT = 'csv-merge-project';
+const MANIFEST_PATH = 'manifest.json';
+const PROFILE_PATH = 'profile.json';
+// Uploaded translations per language; version 1 bundles held the columns of a single translation
+const TRANSLATIONS_PATH = 'translations.json';
+const OVERRIDES_PATH = 'overrides.json';
+const TRANSFORMS_PATH = 'transforms.json';
+const MATCHES_PATH = 'matches.json';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  // IndexedDB schema the records were read from
+  schemaVersion: number;
+  exportedAt: number;
+  project: { name: string; createdAt: number; updatedAt: number };
+  // File records without their rows; the rows of each parsed file are stored at its path
+  files: (FileData & { path?: string })[];
+}
+
+const rowsPath = (fileId: string) => `files/${fileId}.json`;
+
+export const bundleFileName = (project: Project) =>
+  `${project.name.trim().replace(/[^\w-]+/g, '_') || 'project'}.zip`;
+
+// Packs a project's files with their rows, its mapping profile and SKU rules, the uploaded translations,
+// the data transforms, the match decisions and the manual edits of merged cells
+export const exportProject = async (db: DBService, project: Project): Promise<Blob> => {
+  const zip = new JSZip();
+  const files: BundleManifest['files'] = [];
+
+  for (const file of await db.getAllFiles(project.id)) {
+    const { projectId, ...record } = file as FileData & { projectId: string };
+    if (record.rowCount === undefined) {
+      files.push(record);
+      continue;
+    }
+    const rows = await db.getRows(projectId, file.id);
+    const path = rowsPath(file.id);
+    zip.file(path, JSON.stringify(rows));
+    files.push({ ...record, path, rowCount: rows.length });
+  }
+
+  if (project.profile) zip.file(PROFILE_PATH, JSON.stringify(project.profile, null, 2));
+  zip.file(TRANSLATIONS_PATH, JSON.stringify(project.translations || {}));
+  zip.file(TRANSFORMS_PATH, JSON.stringify(project.transforms || [], null, 2));
+  if (project.matches) zip.file(MATCHES_PATH, JSON.stringify(project.matches));
+  zip.file(OVERRIDES_PATH, JSON.stringify(await db.getOverrides(project.id)));
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    schemaVersion: DB_VERSION,
+    exportedAt: Date.now(),
+    project: { name: project.name, createdAt: project.createdAt, updatedAt: project.updatedAt },
+    files,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const readJson = async <T,>(zip: JSZip, path: string): Promise<T> => {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`The bundle is missing ${path}`);
+  try {
+    return JSON.parse(await entry.async('string')) as T;
+  } catch {
+    throw new Error(`${path} in the bundle is not valid JSON`);
+  }
+};
+
+// Rejects bundles from other tools, newer app versions and incomplete archives before anything is written
+const validateManifest = (zip: JSZip, manifest: BundleManifest) => {
+  if (!manifest || manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('This file is not a project bundle');
+  }
+  if (typeof manifest.bundleVersion !== 'number' || manifest.bundleVersion > BUNDLE_VERSION) {
+    throw new Error('This bundle was made with a newer version of the app; update the app to import it');
+  }
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > DB_VERSION) {
+    throw new Error('This bundle uses a newer storage schema; update the app to import it');
+  }
+  if (!manifest.project?.name || !Array.isArray(manifest.files)) {
+    throw new Error('The bundle manifest is incomplete');
+  }
+  const ids = new Set<string>();
+  manifest.files.forEach(file => {
+    if (!file.id || ids.has(file.id)) throw new Error('The bundle manifest lists a file twice or without an id');
+    if (file.rowCount !== undefined && !(file.path && zip.file(file.path))) {
+      throw new Error(`The bundle is missing the rows of ${file.name}`);
+    }
+    ids.add(file.id);
+  });
+};
+
+// Restores a bundle as a new project next to the existing ones and returns it
+export const importProject = async (db: DBService, bundle: Blob): Promise<Project> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bundle);
+  } catch {
+    throw new Error('This file is not a valid .zip archive');
+  }
+
+  const manifest = await readJson<BundleManifest>(zip, MANIFEST_PATH);
+  validateManifest(zip, manifest);
+
+  // Read everything first so a damaged archive leaves no half-imported project behind
+  const files: { record: FileData; rows: DataRow[] }[] = [];
+  const isLegacy = manifest.bundleVersion < 2;
+  for (const { path, ...record } of manifest.files) {
+    const rows = path ? await readJson<DataRow[]>(zip, path) : [];
+    if (!Array.isArray(rows) || (path && rows.length !== record.rowCount)) {
+      throw new Error(`${path} does not hold the ${record.rowCount} rows the manifest lists`);
+    }
+    // Same move as the version 7 schema step: the one translated table belongs to the legacy language
+    if (isLegacy && record.id === 'translatedData') record.id = translatedTableId(LEGACY_TRANSLATION_LANGUAGE);
+    files.push({ record, rows });
+  }
+  const profile = zip.file(PROFILE_PATH) ? await readJson<MergeProfile>(zip, PROFILE_PATH) : undefined;
+  let translations = await readJson<LanguageTranslations>(zip, TRANSLATIONS_PATH);
+  if (isLegacy) {
+    const columns = translations as TranslatedColumns;
+    translations = Object.keys(columns).length > 0 ? { [LEGACY_TRANSLATION_LANGUAGE]: columns } : {};
+  }
+  // Bundles exported before manual edits existed have no overrides file
+  const overrides = zip.file(OVERRIDES_PATH) ? await readJson<CellOverride[]>(zip, OVERRIDES_PATH) : [];
+  if (!Array.isArray(overrides)) throw new Error(`${OVERRIDES_PATH} in the bundle is not a list`);
+  // Likewise for bundles from before data transforms
+  const transforms = zip.file(TRANSFORMS_PATH) ? await readJson<DataTransform[]>(zip, TRANSFORMS_PATH) : [];
+  if (!Array.isArray(transforms)) throw new Error(`${TRANSFORMS_PATH} in the bundle is not a list`);
+  // And for bundles from before match decisions were saved
+  const matches = zip.file(MATCHES_PATH) ? await readJson<MatchDecisions>(zip, MATCHES_PATH) : undefined;
+  if (matches && (!Array.isArray(matches.accepted) || !Array.isArray(matches.rejected))) {
+    throw new Error(`${MATCHES_PATH} in the bundle does not list accepted and rejected matches`);
+  }
+
+  const project: Project = {
+    id: crypto.randomUUID(),
+    name: manifest.project.name,
+    createdAt: manifest.project.createdAt,
+    updatedAt: Date.now(),
+    profile: profile && withProfileDefaults(profile),
+    translations,
+    transforms,
+    matches,
+  };
+
+  try {
+    for (const { record, rows } of files) {
+      // Files that were never parsed carry no rows and keep no row count
+      if (record.rowCount !== undefined) await db.replaceRows(project.id, record.id, rows);
+      await db.saveFile(project.id, record);
+    }
+    await db.saveOverrides(project.id, overrides);
+    await db.saveProject(project);
+  } catch (error) {
+    await db.deleteProject(project.id).catch(() => undefined);
+    throw error;
+  }
+  return project;
+};
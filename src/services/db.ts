@@ -1,16 +1,183 @@
+import { MergeProfile, SourceRole, withProfileDefaults } from './mapping';
+import { MergeReport } from './report';
+import { ImportOptions, RowNumbers } from './parse';
+import { DataRow } from '../types';
+import { LEGACY_TRANSLATION_LANGUAGE, LanguageTranslations, TranslatedColumns, translatedTableId } from './translations';
+import { CellOverride } from './overrides';
+import { DataTransform } from './transforms';
+import { MatchDecisions } from './matching';
+
 const DB_NAME = 'csvMergeDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'files';
+export const DB_VERSION = 7;
+const PROJECT_STORE_NAME = 'projects';
+const FILE_STORE_NAME = 'projectFiles';
+const ROW_STORE_NAME = 'projectRows';
+const OVERRIDE_STORE_NAME = 'overrides';
+const PROFILE_STORE_NAME = 'profiles';
+const SETTINGS_STORE_NAME = 'settings';
+
+const ROW_CHUNK_SIZE = 5000;
+
+// Rows being written by a task that may still be cancelled; see moveRows
+export const stagingFileId = (fileId: string) => `staging:${fileId}`;
+
+// Sessions saved before projects existed open as this project
+export const DEFAULT_PROJECT_ID = 'default';
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Working mapping profile, including edits not saved as a named profile
+  profile?: MergeProfile;
+  // Uploaded translations per target language and column
+  translations?: LanguageTranslations;
+  // Find/replace and computed column transforms rerun after every merge
+  transforms?: DataTransform[];
+  // Accepted and rejected EAN and fuzzy SKU matches
+  matches?: MatchDecisions;
+}
 
 export interface FileData {
-  id: 'deFile' | 'productFile' | 'mergedData';
+  // 'deFile', 'productFile', 'mergedData' and 'previousMergedData', plus 'source-<n>' for
+  // additional sources and 'translatedData:<language>' for translated tables; unique within a project
+  id: string;
   name: string;
+  role?: SourceRole;
+  // Uploaded file name for additional sources, whose name is a user-chosen label
+  fileName?: string;
   type: string;
   size: number;
-  content?: any[];
-  mergedData?: any[];
+  // Sheet and header choices the rows were parsed with
+  importOptions?: ImportOptions;
+  // Set once the rows are in the row store, which is the only place that holds them
+  rowCount?: number;
+  headers?: string[];
+  // Uploads only: the sheet row of each stored row
+  rowNumbers?: RowNumbers;
+  report?: MergeReport;
+  // When the rows were read or, for merged data and its baseline, merged
+  savedAt?: number;
+  // Merged data only: the uploads it was merged from, see sourcesVersion
+  sources?: string;
+}
+
+interface StoredFile extends FileData {
+  projectId: string;
+}
+
+interface StoredOverride extends CellOverride {
+  projectId: string;
+}
+
+interface StoredRow {
+  projectId: string;
+  fileId: string;
+  index: number;
+  row: DataRow;
 }
 
+// Arrays sort after every string, so [projectId, []] closes the range over a project's keys
+const projectRange = (projectId: string) => IDBKeyRange.bound([projectId], [projectId, []]);
+
+const rowRange = (projectId: string, fileId: string, offset = 0, limit = Infinity) =>
+  IDBKeyRange.bound([projectId, fileId, offset], [projectId, fileId, offset + limit - 1]);
+
+const toRecord = (projectId: string, data: FileData): StoredFile => ({ ...data, projectId });
+
+// Resolves once the callback has seen every record; the callback may write within the same transaction
+const forEachRecord = <T,>(store: IDBObjectStore, callback: (value: T, cursor: IDBCursorWithValue) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      callback(cursor.value, cursor);
+      cursor.continue();
+    };
+  });
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => Promise<void> | void;
+
+// Schema history: MIGRATIONS[n] upgrades a version n - 1 database to version n. They run in
+// order inside the upgrade transaction, so a database from any earlier version keeps its data.
+// Never edit a released step; add a new version instead.
+const MIGRATIONS: Record<number, Migration> = {
+  1: db => {
+    db.createObjectStore('files', { keyPath: 'id' });
+  },
+  2: db => {
+    db.createObjectStore(PROFILE_STORE_NAME, { keyPath: 'id' });
+  },
+  3: db => {
+    db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'id' });
+  },
+  // File records carried their rows inline (and the DE record a copy of the merged data);
+  // move them to a row store
+  4: (db, transaction) => {
+    db.createObjectStore('rows', { keyPath: ['fileId', 'index'] });
+    const rowStore = transaction.objectStore('rows');
+    return forEachRecord<Record<string, unknown>>(transaction.objectStore('files'), (value, cursor) => {
+      const { content, mergedData, ...record } = value;
+      if (Array.isArray(content)) {
+        content.forEach((row: DataRow, index: number) => rowStore.put({ fileId: record.id, index, row }));
+        record.rowCount = content.length;
+      }
+      if (content !== undefined || mergedData !== undefined) cursor.update(record);
+    });
+  },
+  // Files and rows are kept per project; the existing session becomes the default project
+  5: async (db, transaction) => {
+    const now = Date.now();
+    db.createObjectStore(PROJECT_STORE_NAME, { keyPath: 'id' })
+      .put({ id: DEFAULT_PROJECT_ID, name: 'My project', createdAt: now, updatedAt: now } satisfies Project);
+    const fileStore = db.createObjectStore(FILE_STORE_NAME, { keyPath: ['projectId', 'id'] });
+    const rowStore = db.createObjectStore(ROW_STORE_NAME, { keyPath: ['projectId', 'fileId', 'index'] });
+
+    await forEachRecord<FileData>(transaction.objectStore('files'), file => {
+      fileStore.put({ ...file, projectId: DEFAULT_PROJECT_ID });
+    });
+    await forEachRecord<Omit<StoredRow, 'projectId'>>(transaction.objectStore('rows'), row => {
+      rowStore.put({ ...row, projectId: DEFAULT_PROJECT_ID });
+    });
+    db.deleteObjectStore('files');
+    db.deleteObjectStore('rows');
+  },
+  6: db => {
+    db.createObjectStore(OVERRIDE_STORE_NAME, { keyPath: ['projectId', 'sku', 'column'] });
+  },
+  // Translations are kept per language; the single translation a project had moves to the legacy language
+  7: async (_db, transaction) => {
+    const legacyId = 'translatedData';
+    const fileId = translatedTableId(LEGACY_TRANSLATION_LANGUAGE);
+    await forEachRecord<Project & { translatedFiles?: TranslatedColumns }>(
+      transaction.objectStore(PROJECT_STORE_NAME),
+      (value, cursor) => {
+        const { translatedFiles, ...project } = value;
+        if (translatedFiles === undefined) return;
+        const translations = Object.keys(translatedFiles).length > 0 ? { [LEGACY_TRANSLATION_LANGUAGE]: translatedFiles } : {};
+        cursor.update({ ...project, translations });
+      }
+    );
+    await forEachRecord<StoredFile>(transaction.objectStore(FILE_STORE_NAME), (file, cursor) => {
+      if (file.id !== legacyId) return;
+      transaction.objectStore(FILE_STORE_NAME).put({ ...file, id: fileId, name: `translated_data_${LEGACY_TRANSLATION_LANGUAGE}` });
+      cursor.delete();
+    });
+    // The renamed rows sort after the legacy ones, so the cursor passes them without matching
+    await forEachRecord<StoredRow>(transaction.objectStore(ROW_STORE_NAME), (row, cursor) => {
+      if (row.fileId !== legacyId) return;
+      transaction.objectStore(ROW_STORE_NAME).put({ ...row, fileId });
+      cursor.delete();
+    });
+  },
+};
+
 export class DBService {
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
@@ -26,21 +193,52 @@ export class DBService {
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
         this.db = request.result;
+        // Let a newer version of the app in another tab (or the data worker) upgrade the schema
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+          this.initPromise = null;
+        };
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        const db = request.result;
+        const transaction = request.transaction!;
+        let steps = Promise.resolve();
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          const migrate = MIGRATIONS[version];
+          steps = steps.then(() => migrate(db, transaction));
         }
+        steps.catch(error => {
+          console.error('Error upgrading the database:', error);
+          transaction.abort();
+        });
       };
     });
 
     return this.initPromise;
   }
 
-  async saveFile(data: FileData): Promise<void> {
+  async getProjects(): Promise<Project[]> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([PROJECT_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(PROJECT_STORE_NAME);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || []);
+    });
+  }
+
+  async saveProject(project: Project): Promise<void> {
     if (!this.db) {
       await this.init();
       if (!this.db) {
@@ -49,16 +247,17 @@ export class DBService {
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(data);
+      const transaction = this.db!.transaction([PROJECT_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(PROJECT_STORE_NAME);
+      const request = store.put(project);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => resolve();
     });
   }
 
-  async getFile(id: FileData['id']): Promise<FileData | null> {
+  // Copies the project record, its files, their rows and its overrides under the new project's id
+  async duplicateProject(sourceId: string, copy: Project): Promise<void> {
     if (!this.db) {
       await this.init();
       if (!this.db) {
@@ -67,16 +266,157 @@ export class DBService {
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(id);
+      const transaction = this.db!.transaction(
+        [PROJECT_STORE_NAME, FILE_STORE_NAME, ROW_STORE_NAME, OVERRIDE_STORE_NAME],
+        'readwrite'
+      );
+      transaction.objectStore(PROJECT_STORE_NAME).put(copy);
+      ([FILE_STORE_NAME, ROW_STORE_NAME, OVERRIDE_STORE_NAME] as const).forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        const request = store.getAll(projectRange(sourceId));
+        request.onsuccess = () => {
+          (request.result as (StoredFile | StoredRow | StoredOverride)[])
+            .forEach(record => store.put({ ...record, projectId: copy.id }));
+        };
+      });
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [PROJECT_STORE_NAME, FILE_STORE_NAME, ROW_STORE_NAME, OVERRIDE_STORE_NAME],
+        'readwrite'
+      );
+      transaction.objectStore(PROJECT_STORE_NAME).delete(id);
+      transaction.objectStore(FILE_STORE_NAME).delete(projectRange(id));
+      transaction.objectStore(ROW_STORE_NAME).delete(projectRange(id));
+      transaction.objectStore(OVERRIDE_STORE_NAME).delete(projectRange(id));
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async saveFile(projectId: string, data: FileData): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([FILE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(FILE_STORE_NAME);
+      const request = store.put(toRecord(projectId, data));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getFile(projectId: string, id: FileData['id']): Promise<FileData | null> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([FILE_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(FILE_STORE_NAME);
+      const request = store.get([projectId, id]);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => resolve(request.result || null);
     });
   }
 
-  async deleteFile(id: FileData['id']): Promise<void> {
+  async getAllFiles(projectId: string): Promise<FileData[]> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([FILE_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(FILE_STORE_NAME);
+      const request = store.getAll(projectRange(projectId));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || []);
+    });
+  }
+
+  async deleteFile(projectId: string, id: FileData['id']): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([FILE_STORE_NAME, ROW_STORE_NAME], 'readwrite');
+      transaction.objectStore(FILE_STORE_NAME).delete([projectId, id]);
+      transaction.objectStore(ROW_STORE_NAME).delete(rowRange(projectId, id));
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async saveProfile(profile: MergeProfile): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([PROFILE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(PROFILE_STORE_NAME);
+      const request = store.put(profile);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getProfiles(): Promise<MergeProfile[]> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([PROFILE_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(PROFILE_STORE_NAME);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result || []).map(withProfileDefaults));
+    });
+  }
+
+  async deleteProfile(id: string): Promise<void> {
     if (!this.db) {
       await this.init();
       if (!this.db) {
@@ -85,12 +425,309 @@ export class DBService {
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = this.db!.transaction([PROFILE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(PROFILE_STORE_NAME);
       const request = store.delete(id);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => resolve();
     });
   }
-}
\ No newline at end of file
+
+  async saveSetting<T>(id: string, value: T): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SETTINGS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SETTINGS_STORE_NAME);
+      const request = store.put({ id, value });
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getSetting<T>(id: string): Promise<T | null> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([SETTINGS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(SETTINGS_STORE_NAME);
+      const request = store.get(id);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result ? request.result.value : null);
+    });
+  }
+
+  // Writes rows starting at the given index in one transaction; callers split large sets into chunks
+  async saveRows(projectId: string, fileId: string, rows: DataRow[], startIndex = 0): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ROW_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(ROW_STORE_NAME);
+      rows.forEach((row, i) => store.put({ projectId, fileId, index: startIndex + i, row } satisfies StoredRow));
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async replaceRows(projectId: string, fileId: string, rows: DataRow[]): Promise<void> {
+    await this.deleteRows(projectId, fileId);
+    for (let start = 0; start < rows.length; start += ROW_CHUNK_SIZE) {
+      await this.saveRows(projectId, fileId, rows.slice(start, start + ROW_CHUNK_SIZE), start);
+    }
+  }
+
+  // Puts the rows stored under one file id in place of another's. The rows replaced are deleted,
+  // or moved to keepPreviousAs, e.g. to keep merged data as the baseline. It runs in one
+  // transaction, so the target keeps its previous rows unless every row is moved.
+  async moveRows(projectId: string, fromFileId: string, toFileId: string, keepPreviousAs?: string): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ROW_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(ROW_STORE_NAME);
+      // Renames the rows of one file, then calls next
+      const rename = (from: string, to: string, next: () => void) => {
+        store.delete(rowRange(projectId, to));
+        const request = store.openCursor(rowRange(projectId, from));
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            next();
+            return;
+          }
+          store.put({ ...(cursor.value as StoredRow), fileId: to });
+          cursor.delete();
+          cursor.continue();
+        };
+      };
+      const moveNew = () => rename(fromFileId, toFileId, () => {});
+      if (keepPreviousAs) {
+        rename(toFileId, keepPreviousAs, moveNew);
+      } else {
+        moveNew();
+      }
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async copyRows(projectId: string, fromFileId: string, toFileId: string): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ROW_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(ROW_STORE_NAME);
+      store.delete(rowRange(projectId, toFileId));
+      const request = store.openCursor(rowRange(projectId, fromFileId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        store.put({ ...(cursor.value as StoredRow), fileId: toFileId });
+        cursor.continue();
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  // Rewrites the rows the callback returns a new row for, one cursor pass over the file
+  async updateRows(projectId: string, fileId: string, update: (row: DataRow) => DataRow | null): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ROW_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(ROW_STORE_NAME).openCursor(rowRange(projectId, fileId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const stored = cursor.value as StoredRow;
+        const row = update(stored.row);
+        if (row) cursor.update({ ...stored, row } satisfies StoredRow);
+        cursor.continue();
+      };
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async getRows(projectId: string, fileId: string, offset = 0, limit = Infinity): Promise<DataRow[]> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ROW_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(ROW_STORE_NAME);
+      const request = store.getAll(rowRange(projectId, fileId, offset, limit));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as StoredRow[]).map(stored => stored.row));
+    });
+  }
+
+  // Rows at the given positions, in the order given
+  async getRowsAt(projectId: string, fileId: string, positions: number[]): Promise<DataRow[]> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ROW_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(ROW_STORE_NAME);
+      const rows: DataRow[] = new Array(positions.length);
+      positions.forEach((index, i) => {
+        const request = store.get([projectId, fileId, index]);
+        request.onsuccess = () => {
+          rows[i] = (request.result as StoredRow | undefined)?.row ?? {};
+        };
+      });
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve(rows);
+    });
+  }
+
+  async deleteRows(projectId: string, fileId: string): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ROW_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(ROW_STORE_NAME);
+      const request = store.delete(rowRange(projectId, fileId));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async getOverrides(projectId: string): Promise<CellOverride[]> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([OVERRIDE_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(OVERRIDE_STORE_NAME);
+      const request = store.getAll(projectRange(projectId));
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(
+        (request.result as StoredOverride[]).map(({ sku, column, value, original, updatedAt }) => ({
+          sku,
+          column,
+          value,
+          original,
+          updatedAt,
+        }))
+      );
+    });
+  }
+
+  // Replaces the project's overrides, e.g. with the originals refreshed by a merge
+  async saveOverrides(projectId: string, overrides: CellOverride[]): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([OVERRIDE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(OVERRIDE_STORE_NAME);
+      store.delete(projectRange(projectId));
+      overrides.forEach(override => store.put({ ...override, projectId } satisfies StoredOverride));
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  async saveOverride(projectId: string, override: CellOverride): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([OVERRIDE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(OVERRIDE_STORE_NAME);
+      const request = store.put({ ...override, projectId } satisfies StoredOverride);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  async deleteOverride(projectId: string, sku: string, column: string): Promise<void> {
+    if (!this.db) {
+      await this.init();
+      if (!this.db) {
+        throw new Error('Failed to initialize database');
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([OVERRIDE_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(OVERRIDE_STORE_NAME);
+      const request = store.delete([projectId, sku, column]);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+}
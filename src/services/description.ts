@@ -0,0 +1,144 @@
+import { DataRow } from '../types';
+import { DE_SOURCE_ID, MergeSource, PRODUCT_SOURCE_ID, SourceId, isEmptyValue } from './mapping';
+
+export type DescriptionFormat = 'text' | 'html' | 'markdown';
+
+// How a part's text is laid out: as paragraphs, or one list item per line
+export type DescriptionPartStyle = 'paragraphs' | 'list';
+
+export interface DescriptionPart {
+  id: string;
+  source: SourceId;
+  column: string;
+  // Shown above the part when it has any text
+  heading: string;
+  style: DescriptionPartStyle;
+}
+
+export interface DescriptionTemplate {
+  parts: DescriptionPart[];
+  format: DescriptionFormat;
+  // Between blocks in plain text; HTML and Markdown use their own block syntax
+  separator: string;
+  // Drops paragraphs that already appeared in an earlier part, e.g. in both files
+  dedupe: boolean;
+}
+
+export const DESCRIPTION_FORMAT_LABELS: Record<DescriptionFormat, string> = {
+  text: 'Plain text',
+  html: 'HTML',
+  markdown: 'Markdown',
+};
+
+export const DESCRIPTION_SEPARATORS: { label: string; value: string }[] = [
+  { label: 'Blank line', value: '\n\n' },
+  { label: 'Line break', value: '\n' },
+  { label: 'Space', value: ' ' },
+];
+
+export const createDescriptionPart = (source: SourceId, column = ''): DescriptionPart => ({
+  id: crypto.randomUUID(),
+  source,
+  column,
+  heading: '',
+  style: 'paragraphs',
+});
+
+const BULLET_PATTERN = /^\s*(?:[-*•·]|\d+[.)])\s+/;
+
+const splitParagraphs = (text: string) =>
+  text.split(/\r?\n\s*\r?\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+const splitLines = (text: string) =>
+  text.split(/\r?\n/).map(line => line.replace(BULLET_PATTERN, '').trim()).filter(Boolean);
+
+// Paragraphs count as repeats when they differ only in case, spacing or trailing punctuation
+const paragraphKey = (paragraph: string) =>
+  paragraph.toLowerCase().replace(/\s+/g, ' ').replace(/[.!;:,\s]+$/, '').trim();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface Block {
+  heading: string;
+  style: DescriptionPartStyle;
+  paragraphs: string[];
+}
+
+const renderBlock = ({ heading, style, paragraphs }: Block, format: DescriptionFormat, separator: string): string => {
+  const items = style === 'list' ? paragraphs.flatMap(splitLines) : paragraphs;
+  switch (format) {
+    case 'html': {
+      const body = style === 'list'
+        ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+        : items.map(item => `<p>${escapeHtml(item).replace(/\r?\n/g, '<br>')}</p>`).join('\n');
+      return heading ? `<h3>${escapeHtml(heading)}</h3>\n${body}` : body;
+    }
+    case 'markdown': {
+      const body = style === 'list' ? items.map(item => `- ${item}`).join('\n') : items.join('\n\n');
+      return heading ? `### ${heading}\n\n${body}` : body;
+    }
+    case 'text': {
+      const body = style === 'list' ? items.map(item => `- ${item}`).join('\n') : items.join(separator);
+      return heading ? `${heading}\n${body}` : body;
+    }
+  }
+};
+
+// Assembles the description of one merged product from whichever source rows it has
+export const buildDescription = (template: DescriptionTemplate, items: Record<SourceId, DataRow | undefined>): string => {
+  const seen = new Set<string>();
+  const blocks: Block[] = [];
+
+  template.parts.forEach(part => {
+    const value = items[part.source]?.[part.column];
+    if (isEmptyValue(value)) return;
+    const paragraphs = splitParagraphs(String(value)).filter(paragraph => {
+      if (!template.dedupe) return true;
+      const key = paragraphKey(paragraph);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (paragraphs.length > 0) blocks.push({ heading: part.heading.trim(), style: part.style, paragraphs });
+  });
+
+  const blockSeparator = template.format === 'html' ? '\n' : template.format === 'markdown' ? '\n\n' : template.separator;
+  return blocks.map(block => renderBlock(block, template.format, template.separator)).join(blockSeparator);
+};
+
+export interface DescriptionSample {
+  label: string;
+  sku: string;
+  items: Record<SourceId, DataRow | undefined>;
+}
+
+// One product from each merge category, so the preview shows how the template treats all three
+export const findDescriptionSamples = (
+  sources: MergeSource[],
+  normalizeSku: (sku: unknown) => string
+): DescriptionSample[] => {
+  const rowsBySource = new Map(sources.map(source => {
+    const bySku = new Map<string, DataRow>();
+    source.rows.forEach(row => {
+      const sku = normalizeSku(row.SKU);
+      if (sku && !bySku.has(sku)) bySku.set(sku, row);
+    });
+    return [source.id, bySku] as const;
+  }));
+  const deSkus = Array.from(rowsBySource.get(DE_SOURCE_ID)?.keys() || []);
+  const productSkus = Array.from(rowsBySource.get(PRODUCT_SOURCE_ID)?.keys() || []);
+  const inDe = (sku: string) => rowsBySource.get(DE_SOURCE_ID)?.has(sku) ?? false;
+  const inProduct = (sku: string) => rowsBySource.get(PRODUCT_SOURCE_ID)?.has(sku) ?? false;
+
+  const candidates: [string, string | undefined][] = [
+    ['In both files', deSkus.find(inProduct)],
+    ['DE only', deSkus.find(sku => !inProduct(sku))],
+    ['Product Information only', productSkus.find(sku => !inDe(sku))],
+  ];
+  return candidates.flatMap(([label, sku]) =>
+    sku === undefined
+      ? []
+      : [{ label, sku, items: Object.fromEntries(sources.map(source => [source.id, rowsBySource.get(source.id)?.get(sku)])) }]
+  );
+};
@@ -0,0 +1,73 @@
+import { DataRow } from '../types';
+
+export type ChangeType = 'new' | 'removed' | 'changed';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangedRow {
+  sku: string;
+  row: DataRow;
+  changes: FieldChange[];
+}
+
+export interface DatasetDiff {
+  added: DataRow[];
+  removed: DataRow[];
+  changed: ChangedRow[];
+}
+
+// Fields the shop importer cares about between weekly runs
+export const DIFF_FIELDS = ['Price', 'Stock', 'Title', 'description'];
+
+export const CHANGE_COLUMN = 'Change';
+
+const normalizeValue = (value: unknown): string => String(value ?? '').trim();
+
+const indexBySku = (rows: DataRow[]): Map<string, DataRow> => {
+  const index = new Map<string, DataRow>();
+  rows.forEach(row => {
+    if (row.SKU) index.set(String(row.SKU), row);
+  });
+  return index;
+};
+
+export const diffDatasets = (previous: DataRow[], current: DataRow[], fields: string[] = DIFF_FIELDS): DatasetDiff => {
+  const previousBySku = indexBySku(previous);
+  const currentBySku = indexBySku(current);
+  const diff: DatasetDiff = { added: [], removed: [], changed: [] };
+
+  currentBySku.forEach((row, sku) => {
+    const before = previousBySku.get(sku);
+    if (!before) {
+      diff.added.push(row);
+      return;
+    }
+    const changes = fields
+      .filter(field => normalizeValue(before[field]) !== normalizeValue(row[field]))
+      .map(field => ({ field, before: before[field], after: row[field] }));
+    if (changes.length > 0) diff.changed.push({ sku, row, changes });
+  });
+
+  previousBySku.forEach((row, sku) => {
+    if (!currentBySku.has(sku)) diff.removed.push(row);
+  });
+
+  return diff;
+};
+
+// Rows for the delta export: full current rows for new and changed products,
+// the last known row for removed ones, each tagged with its change type
+export const buildDeltaRows = (diff: DatasetDiff, types: ChangeType[] = ['new', 'changed', 'removed']): DataRow[] => [
+  ...(types.includes('new') ? diff.added.map(row => ({ [CHANGE_COLUMN]: 'new', ...row })) : []),
+  ...(types.includes('changed')
+    ? diff.changed.map(({ row, changes }) => ({
+        [CHANGE_COLUMN]: `changed: ${changes.map(change => change.field).join(', ')}`,
+        ...row,
+      }))
+    : []),
+  ...(types.includes('removed') ? diff.removed.map(row => ({ [CHANGE_COLUMN]: 'removed', ...row })) : []),
+];
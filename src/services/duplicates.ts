@@ -0,0 +1,141 @@
+import { DataRow } from '../types';
+import { MergeSource, SourceId, isEmptyValue } from './mapping';
+import { RowNumbers } from './parse';
+
+export type DuplicateStrategy = 'first' | 'last' | 'pick' | 'fieldMerge';
+
+export interface IndexedRow {
+  // Position of the row in the parsed file (0-based, header excluded)
+  index: number;
+  row: DataRow;
+}
+
+export interface DuplicateGroup {
+  source: SourceId;
+  sourceName: string;
+  sku: string;
+  rows: IndexedRow[];
+}
+
+export interface DuplicateResolution {
+  strategy: DuplicateStrategy;
+  // Row position within the group for the 'pick' strategy
+  pick?: number;
+  // Column -> row position within the group for the 'fieldMerge' strategy
+  fields?: Record<string, number>;
+}
+
+export type DuplicateResolutions = Record<string, DuplicateResolution>;
+
+export const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  first: 'Keep first',
+  last: 'Keep last',
+  pick: 'Keep specific row',
+  fieldMerge: 'Merge field by field',
+};
+
+// Matches the previous Map.set behaviour, where the last row silently won
+export const DEFAULT_DUPLICATE_STRATEGY: DuplicateStrategy = 'last';
+
+export const RESOLUTION_COLUMN = 'Duplicate resolution';
+
+export const duplicateKey = (source: SourceId, sku: string): string => `${source}:${sku}`;
+
+// Spreadsheet row number, counting the header as row 1 unless the file recorded where its rows sit
+export const toRowNumber = (index: number, rowNumbers: RowNumbers = []): number => {
+  // The last run starting at or before the row
+  let low = 0;
+  let high = rowNumbers.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (rowNumbers[middle][0] <= index) low = middle + 1;
+    else high = middle;
+  }
+  if (low === 0) return index + 2;
+  const [position, rowNumber] = rowNumbers[low - 1];
+  return rowNumber + index - position;
+};
+
+export const groupBySku = (
+  data: DataRow[],
+  normalize: (sku: unknown) => string
+): Map<string, IndexedRow[]> => {
+  const groups = new Map<string, IndexedRow[]>();
+  data.forEach((row, index) => {
+    if (!row.SKU) return;
+    const normalizedSku = normalize(row.SKU);
+    if (!normalizedSku) return;
+    const group = groups.get(normalizedSku);
+    if (group) {
+      group.push({ index, row });
+    } else {
+      groups.set(normalizedSku, [{ index, row }]);
+    }
+  });
+  return groups;
+};
+
+export const findDuplicateGroups = (
+  source: MergeSource,
+  normalize: (sku: unknown) => string
+): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+  for (const [sku, rows] of groupBySku(source.rows, normalize).entries()) {
+    if (rows.length > 1) groups.push({ source: source.id, sourceName: source.name, sku, rows });
+  }
+  return groups;
+};
+
+export const getGroupColumns = (rows: IndexedRow[]): string[] => {
+  const columns = new Set<string>();
+  rows.forEach(({ row }) => Object.keys(row).forEach(key => columns.add(key)));
+  return Array.from(columns);
+};
+
+// Default field-by-field choice: the first row that has a value for the column
+export const defaultFieldChoice = (rows: IndexedRow[], column: string): number => {
+  const position = rows.findIndex(({ row }) => !isEmptyValue(row[column]));
+  return position === -1 ? 0 : position;
+};
+
+export const resolveDuplicate = (rows: IndexedRow[], resolution?: DuplicateResolution): DataRow => {
+  const strategy = resolution?.strategy ?? DEFAULT_DUPLICATE_STRATEGY;
+  switch (strategy) {
+    case 'first':
+      return rows[0].row;
+    case 'pick':
+      return (rows[resolution?.pick ?? 0] ?? rows[0]).row;
+    case 'fieldMerge': {
+      const merged: DataRow = {};
+      getGroupColumns(rows).forEach(column => {
+        const position = resolution?.fields?.[column] ?? defaultFieldChoice(rows, column);
+        merged[column] = (rows[position] ?? rows[0]).row[column];
+      });
+      return merged;
+    }
+    case 'last':
+    default:
+      return rows[rows.length - 1].row;
+  }
+};
+
+export const describeResolution = (
+  sourceName: string,
+  rows: IndexedRow[],
+  resolution?: DuplicateResolution
+): string => {
+  const strategy = resolution?.strategy ?? DEFAULT_DUPLICATE_STRATEGY;
+  const rowNumbers = rows.map(({ index }) => toRowNumber(index));
+  const prefix = `${sourceName}: ${rows.length} rows (${rowNumbers.join(', ')})`;
+  switch (strategy) {
+    case 'first':
+      return `${prefix}, kept first row ${rowNumbers[0]}`;
+    case 'pick':
+      return `${prefix}, kept row ${rowNumbers[resolution?.pick ?? 0] ?? rowNumbers[0]}`;
+    case 'fieldMerge':
+      return `${prefix}, merged field by field`;
+    case 'last':
+    default:
+      return `${prefix}, kept last row ${rowNumbers[rowNumbers.length - 1]}`;
+  }
+};
@@ -0,0 +1,91 @@
+import Papa from 'papaparse';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { DataRow } from '../types';
+import { TRANSLATABLE_COLUMNS } from './translations';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Descriptions are long, so they go out in workbooks of this many rows
+const DESCRIPTION_ROWS_PER_FILE = 600;
+
+export const toCsvBlob = (rows: DataRow[]): Blob =>
+  new Blob([Papa.unparse(rows)], { type: 'text/csv;charset=utf-8;' });
+
+export const toXlsxBlob = async (rows: DataRow[]): Promise<Blob> => {
+  // Clean the data to ensure it's properly serializable
+  const cleanData = rows.map(row => {
+    const cleanRow: DataRow = {};
+    Object.keys(row).forEach(key => {
+      // Handle undefined, null, or complex objects
+      if (row[key] === undefined || row[key] === null) {
+        cleanRow[key] = '';
+      } else if (typeof row[key] === 'object') {
+        cleanRow[key] = JSON.stringify(row[key]);
+      } else {
+        cleanRow[key] = row[key];
+      }
+    });
+    return cleanRow;
+  });
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Data');
+  if (cleanData.length > 0) {
+    worksheet.columns = Object.keys(cleanData[0]).map(header => ({ header, key: header }));
+    cleanData.forEach(row => {
+      worksheet.addRow(row);
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_TYPE });
+};
+
+export const toBlob = (rows: DataRow[], format: ExportFormat): Promise<Blob> =>
+  format === 'csv' ? Promise.resolve(toCsvBlob(rows)) : toXlsxBlob(rows);
+
+const columnWorkbook = (rows: DataRow[], rowIndexes: number[], offset: number, column: string) => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Data');
+  worksheet.columns = [
+    { header: 'row_index', key: 'row_index' },
+    { header: 'SKU', key: 'SKU' },
+    { header: column, key: column },
+  ];
+  rows.forEach((row, index) => {
+    worksheet.addRow({ row_index: rowIndexes[offset + index], SKU: row.SKU || '', [column]: row[column] || '' });
+  });
+  return workbook.xlsx.writeBuffer();
+};
+
+// A zip with one workbook per translatable column, or null when the rows lack one of them. row_index
+// is the position of each row in the merged data, also when the rows are sorted or filtered, so
+// the coverage check can tell whether a translated row still lines up with its SKU.
+export const buildColumnExtract = async (rows: DataRow[], rowIndexes: number[]): Promise<Blob | null> => {
+  if (rows.length === 0 || TRANSLATABLE_COLUMNS.some(column => !(column in rows[0]))) return null;
+
+  const zip = new JSZip();
+  for (const column of TRANSLATABLE_COLUMNS) {
+    try {
+      if (column === 'description') {
+        const totalChunks = Math.ceil(rows.length / DESCRIPTION_ROWS_PER_FILE);
+        for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
+          const start = chunkIndex * DESCRIPTION_ROWS_PER_FILE;
+          const chunk = rows.slice(start, start + DESCRIPTION_ROWS_PER_FILE);
+          zip.file(
+            `${column.toLowerCase()}_${chunkIndex + 1}_of_${totalChunks}.xlsx`,
+            await columnWorkbook(chunk, rowIndexes, start, column)
+          );
+        }
+      } else {
+        zip.file(`${column.toLowerCase()}.xlsx`, await columnWorkbook(rows, rowIndexes, 0, column));
+      }
+    } catch (error) {
+      console.error(`Error processing ${column}:`, error);
+    }
+  }
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,138 @@
+import { DataRow } from '../types';
+import { isEmptyValue } from './mapping';
+
+export type ColumnFilter =
+  | { type: 'contains'; value: string }
+  | { type: 'empty' }
+  | { type: 'notEmpty' }
+  | { type: 'range'; min?: number; max?: number };
+
+export type ColumnFilterType = ColumnFilter['type'];
+
+export const FILTER_LABELS: Record<ColumnFilterType, string> = {
+  contains: 'Contains',
+  empty: 'Is empty',
+  notEmpty: 'Is not empty',
+  range: 'Number between',
+};
+
+export interface GridSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface GridState {
+  sort: GridSort | null;
+  filters: Record<string, ColumnFilter>;
+  search: string;
+  hiddenColumns: string[];
+  // Columns moved by the user; columns not listed keep their file order after these
+  columnOrder: string[];
+  showFilters: boolean;
+}
+
+export const DEFAULT_GRID_STATE: GridState = {
+  sort: null,
+  filters: {},
+  search: '',
+  hiddenColumns: [],
+  columnOrder: [],
+  showFilters: false,
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (isEmptyValue(value)) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const matchesFilter = (value: unknown, filter: ColumnFilter): boolean => {
+  switch (filter.type) {
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(filter.value.toLowerCase());
+    case 'empty':
+      return isEmptyValue(value);
+    case 'notEmpty':
+      return !isEmptyValue(value);
+    case 'range': {
+      const number = toNumber(value);
+      if (number === null) return false;
+      return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+    }
+  }
+};
+
+// A contains filter without text or a range without bounds does not narrow the rows yet
+const isActiveFilter = (filter: ColumnFilter) =>
+  filter.type === 'contains' ? filter.value !== ''
+  : filter.type === 'range' ? filter.min !== undefined || filter.max !== undefined
+  : true;
+
+// Numbers compare by value, everything else as text with embedded numbers in order
+const compareValues = (a: unknown, b: unknown): number => {
+  const aNumber = toNumber(a);
+  const bNumber = toNumber(b);
+  if (aNumber !== null && bNumber !== null) return aNumber - bNumber;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+// Whether the view differs from the stored row order, so its rows cannot be read straight from the database
+export const hasRowQuery = (state: GridState): boolean =>
+  state.sort !== null || state.search.trim() !== '' || Object.values(state.filters).some(isActiveFilter);
+
+// Filtered, searched and sorted rows; the input array is returned as is when nothing applies
+export const queryRows = (rows: DataRow[], state: GridState): DataRow[] => {
+  if (!hasRowQuery(state)) return rows;
+
+  const filters = Object.entries(state.filters).filter(([, filter]) => isActiveFilter(filter));
+  const search = state.search.trim().toLowerCase();
+  const result = rows.filter(row =>
+    filters.every(([column, filter]) => matchesFilter(row[column], filter)) &&
+    (!search || Object.values(row).some(value => String(value ?? '').toLowerCase().includes(search)))
+  );
+
+  const { sort } = state;
+  if (sort) {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    // Empty cells go last in both directions; the sort is stable, so equal values keep the file order
+    result.sort((a, b) => {
+      const aEmpty = isEmptyValue(a[sort.column]);
+      const bEmpty = isEmptyValue(b[sort.column]);
+      if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+      return direction * compareValues(a[sort.column], b[sort.column]);
+    });
+  }
+  return result;
+};
+
+// Visible columns in display order
+export const getVisibleColumns = (headers: string[], state: GridState): string[] => {
+  const ordered = [
+    ...state.columnOrder.filter(column => headers.includes(column)),
+    ...headers.filter(column => !state.columnOrder.includes(column)),
+  ];
+  return ordered.filter(column => !state.hiddenColumns.includes(column));
+};
+
+// The rows as the grid shows them, limited to the visible columns, for exports
+export const projectColumns = (rows: DataRow[], columns: string[]): DataRow[] =>
+  rows.map(row => Object.fromEntries(columns.map(column => [column, row[column]])));
+
+// Moves a column one place among all columns, hidden ones included
+export const moveColumn = (headers: string[], state: GridState, column: string, offset: -1 | 1): string[] => {
+  const order = getVisibleColumns(headers, { ...state, hiddenColumns: [] });
+  const index = order.indexOf(column);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= order.length) return order;
+  [order[index], order[target]] = [order[target], order[index]];
+  return order;
+};
+
+// Cycles a column through ascending, descending and unsorted
+export const nextSort = (sort: GridSort | null, column: string): GridSort | null => {
+  if (sort?.column !== column) return { column, direction: 'asc' };
+  return sort.direction === 'asc' ? { column, direction: 'desc' } : null;
+};
+
+export const countActiveFilters = (state: GridState): number =>
+  Object.values(state.filters).filter(isActiveFilter).length;
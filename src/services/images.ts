@@ -0,0 +1,110 @@
+import { DataRow } from '../types';
+import { isEmptyValue } from './mapping';
+
+export const IMAGE_COLUMNS = Array.from({ length: 12 }, (_, i) => `image${i + 1}`);
+
+export type ImageIssue = 'malformed' | 'duplicate' | 'gap';
+
+export const IMAGE_ISSUE_LABELS: Record<ImageIssue, string> = {
+  malformed: 'Malformed URL',
+  duplicate: 'Duplicate of an earlier image',
+  gap: 'Missing before a later image',
+};
+
+export interface ImageSlot {
+  column: string;
+  // Empty for a gap
+  url: string;
+  issues: ImageIssue[];
+}
+
+export interface ProductImages {
+  // The image columns up to the last filled one, so gaps show in place
+  slots: ImageSlot[];
+  imageCount: number;
+  issues: Record<ImageIssue, number>;
+}
+
+export const isValidImageUrl = (url: string): boolean => {
+  if (/\s/.test(url)) return false;
+  try {
+    const parsed = new URL(url);
+    return (parsed.protocol === 'http:' || parsed.protocol === 'https:') && parsed.hostname.includes('.');
+  } catch {
+    return false;
+  }
+};
+
+const imageUrls = (row: DataRow) =>
+  IMAGE_COLUMNS.map(column => (isEmptyValue(row[column]) ? '' : String(row[column]).trim()));
+
+export const checkProductImages = (row: DataRow): ProductImages => {
+  const urls = imageUrls(row);
+  const last = urls.reduce((lastFilled, url, index) => (url ? index : lastFilled), -1);
+  const seen = new Set<string>();
+  const issues: Record<ImageIssue, number> = { malformed: 0, duplicate: 0, gap: 0 };
+
+  const slots = urls.slice(0, last + 1).map((url, index): ImageSlot => {
+    const slotIssues: ImageIssue[] = [];
+    if (!url) {
+      slotIssues.push('gap');
+    } else {
+      if (!isValidImageUrl(url)) slotIssues.push('malformed');
+      if (seen.has(url)) slotIssues.push('duplicate');
+      seen.add(url);
+    }
+    slotIssues.forEach(issue => issues[issue]++);
+    return { column: IMAGE_COLUMNS[index], url, issues: slotIssues };
+  });
+
+  return { slots, imageCount: urls.filter(Boolean).length, issues };
+};
+
+// Issue counts over many products
+export interface ImageSummary {
+  issues: Record<ImageIssue, number>;
+  withoutImages: number;
+  // Indexes of the products with at least one issue
+  withIssues: number[];
+}
+
+export const summarizeImages = (rows: DataRow[]): ImageSummary => {
+  const summary: ImageSummary = { issues: { malformed: 0, duplicate: 0, gap: 0 }, withoutImages: 0, withIssues: [] };
+  rows.forEach((row, index) => {
+    const images = checkProductImages(row);
+    (Object.keys(summary.issues) as ImageIssue[]).forEach(issue => {
+      summary.issues[issue] += images.issues[issue];
+    });
+    if (images.slots.some(slot => slot.issues.length > 0)) summary.withIssues.push(index);
+    if (images.imageCount === 0) summary.withoutImages++;
+  });
+  return summary;
+};
+
+// The image columns whose values change, as column → new value
+export type ImageChanges = Record<string, string>;
+
+const diffImages = (row: DataRow, urls: string[]): ImageChanges => {
+  const current = imageUrls(row);
+  return Object.fromEntries(
+    IMAGE_COLUMNS
+      .map((column, index) => [column, urls[index] || ''] as const)
+      .filter(([, url], index) => url !== current[index])
+  );
+};
+
+// Moves the images up to image1 with no gaps in between, optionally dropping repeated URLs
+export const compactImages = (row: DataRow, dropDuplicates: boolean): ImageChanges => {
+  const urls = imageUrls(row).filter(Boolean);
+  return diffImages(row, dropDuplicates ? Array.from(new Set(urls)) : urls);
+};
+
+// Swaps an image with its neighbour; an empty neighbour slot just takes the image
+export const moveImage = (row: DataRow, column: string, offset: -1 | 1): ImageChanges => {
+  const urls = imageUrls(row);
+  const index = IMAGE_COLUMNS.indexOf(column);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= urls.length) return {};
+  [urls[index], urls[target]] = [urls[target], urls[index]];
+  return diffImages(row, urls);
+};
@@ -0,0 +1,264 @@
+import { DataRow } from '../types';
+import { DEFAULT_SKU_RULES, SkuRule } from './skuRules';
+import { DEFAULT_MATCHING_SETTINGS, MatchingSettings } from './matching';
+import { DescriptionPart, DescriptionTemplate } from './description';
+import { DEFAULT_MEASUREMENT_SETTINGS, MeasurementSettings } from './units';
+import { CategorySettings, DEFAULT_CATEGORY_SETTINGS } from './taxonomy';
+import { RowNumbers } from './parse';
+
+export type SourceId = string;
+
+export type SourceRole = 'de' | 'product' | 'stock' | 'marketplace' | 'other';
+
+export interface MergeSource {
+  id: SourceId;
+  name: string;
+  role: SourceRole;
+  rows: DataRow[];
+  // Where the rows sit in the uploaded file, for reporting issues by row
+  rowNumbers?: RowNumbers;
+}
+
+export type FieldTransform = 'none' | 'trim' | 'uppercase' | 'lowercase' | 'titleCase' | 'stripBrandAndSku';
+
+export interface FieldSource {
+  source: SourceId;
+  column: string;
+}
+
+export interface FieldMapping {
+  output: string;
+  // Candidate columns in precedence order; the first non-empty value wins
+  sources: FieldSource[];
+  transform: FieldTransform;
+}
+
+export interface MergeProfile {
+  id: string;
+  name: string;
+  fields: FieldMapping[];
+  // Default precedence of sources, applied to new fields and on request to all fields
+  sourceOrder: SourceId[];
+  skuRules: SkuRule[];
+  matching: MatchingSettings;
+  // How the description column is assembled from the source files
+  description: DescriptionTemplate;
+  measurements: MeasurementSettings;
+  // Our shop taxonomy and which node each supplier category/subcategory pair goes to
+  categories: CategorySettings;
+  updatedAt: number;
+}
+
+export interface TransformContext {
+  brand: string;
+  sku: string;
+}
+
+// The DE export and Product Information file are always present; further sources are optional
+export const DE_SOURCE_ID = 'deFile';
+export const PRODUCT_SOURCE_ID = 'productFile';
+
+export const SOURCE_ROLE_LABELS: Record<SourceRole, string> = {
+  de: 'DE export',
+  product: 'Product information',
+  stock: 'Warehouse stock & price',
+  marketplace: 'Marketplace categories',
+  other: 'Other',
+};
+
+export const TRANSFORM_LABELS: Record<FieldTransform, string> = {
+  none: 'None',
+  trim: 'Trim whitespace',
+  uppercase: 'UPPERCASE',
+  lowercase: 'lowercase',
+  titleCase: 'Title Case',
+  stripBrandAndSku: 'Strip brand & SKU',
+};
+
+const field = (
+  output: string,
+  sources: [SourceId, string][],
+  transform: FieldTransform = 'none'
+): FieldMapping => ({
+  output,
+  sources: sources.map(([source, column]) => ({ source, column })),
+  transform,
+});
+
+// Reproduces the column layout the merge used before mappings were configurable
+export const DEFAULT_FIELDS: FieldMapping[] = [
+  field('EAN', [[DE_SOURCE_ID, 'EAN'], [PRODUCT_SOURCE_ID, 'EAN']]),
+  field('Subcategory', [[DE_SOURCE_ID, 'Category']]),
+  field('Category', [[PRODUCT_SOURCE_ID, 'Category'], [DE_SOURCE_ID, 'Category']]),
+  field('Price', [[DE_SOURCE_ID, 'Price']]),
+  field('Stock', [[DE_SOURCE_ID, 'Stock']]),
+  field('Material', [[PRODUCT_SOURCE_ID, 'Material']]),
+  field('Title', [[PRODUCT_SOURCE_ID, 'Name'], [DE_SOURCE_ID, 'Title']], 'stripBrandAndSku'),
+  field('Brand', [[PRODUCT_SOURCE_ID, 'Brand'], [DE_SOURCE_ID, 'Brand']]),
+  field('Product size', [[PRODUCT_SOURCE_ID, 'Product size/cm']]),
+  field('Package size Length', [[PRODUCT_SOURCE_ID, 'Package size/cm L']]),
+  field('Package size Width', [[PRODUCT_SOURCE_ID, 'Package size/cm W']]),
+  field('Package size Height', [[PRODUCT_SOURCE_ID, 'Package size/cm H']]),
+  field('Net weight', [[PRODUCT_SOURCE_ID, 'Net weight/kg']]),
+  field('Gross weight', [[PRODUCT_SOURCE_ID, 'Gross weight/kg']]),
+  field('Volume/CBM', [[PRODUCT_SOURCE_ID, 'Volume/CBM']]),
+  field('Color', [[PRODUCT_SOURCE_ID, 'Color']]),
+  ...Array.from({ length: 12 }, (_, i) =>
+    field(`image${i + 1}`, [[DE_SOURCE_ID, `image${i + 1}`], [PRODUCT_SOURCE_ID, `image${i + 1}`]])
+  ),
+];
+
+const descriptionPart = (id: string, source: SourceId, column: string): DescriptionPart => ({
+  id,
+  source,
+  column,
+  heading: '',
+  style: 'paragraphs',
+});
+
+// Product Information descriptions first, then the DE description and the specifications
+export const DEFAULT_DESCRIPTION_TEMPLATE: DescriptionTemplate = {
+  parts: [
+    ...Array.from({ length: 5 }, (_, i) =>
+      descriptionPart(`product-description-${i + 1}`, PRODUCT_SOURCE_ID, `Description ${i + 1}`)
+    ),
+    descriptionPart('de-description-1', DE_SOURCE_ID, 'Description 1'),
+    descriptionPart('product-specifications', PRODUCT_SOURCE_ID, 'Specifications'),
+  ],
+  format: 'text',
+  separator: '\n\n',
+  dedupe: true,
+};
+
+export const DEFAULT_MERGE_PROFILE: MergeProfile = {
+  id: 'default',
+  name: 'Default',
+  fields: DEFAULT_FIELDS,
+  sourceOrder: [DE_SOURCE_ID, PRODUCT_SOURCE_ID],
+  skuRules: DEFAULT_SKU_RULES,
+  matching: DEFAULT_MATCHING_SETTINGS,
+  description: DEFAULT_DESCRIPTION_TEMPLATE,
+  measurements: DEFAULT_MEASUREMENT_SETTINGS,
+  categories: DEFAULT_CATEGORY_SETTINGS,
+  updatedAt: 0,
+};
+
+interface LegacyFieldMapping {
+  output: string;
+  source: SourceId;
+  column: string;
+  fallbackColumn: string;
+  transform: FieldTransform;
+}
+
+// Two-file profiles stored a primary column plus a fallback column in the other file
+const migrateField = (mapping: FieldMapping | LegacyFieldMapping): FieldMapping => {
+  if ('sources' in mapping) return mapping;
+  const other = mapping.source === DE_SOURCE_ID ? PRODUCT_SOURCE_ID : DE_SOURCE_ID;
+  const sources = [{ source: mapping.source, column: mapping.column }];
+  if (mapping.fallbackColumn) sources.push({ source: other, column: mapping.fallbackColumn });
+  return { output: mapping.output, sources, transform: mapping.transform };
+};
+
+// Profiles saved by older versions lack newer settings; fill them from the defaults
+export const withProfileDefaults = (profile: Partial<MergeProfile> & { id: string; name: string }): MergeProfile => ({
+  ...DEFAULT_MERGE_PROFILE,
+  ...profile,
+  fields: (profile.fields ?? DEFAULT_MERGE_PROFILE.fields).map(migrateField),
+});
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+// Collect headers from a sample of rows, since sparse rows may omit trailing columns
+export const getHeaders = (rows: DataRow[] | undefined | null, sampleSize = 50): string[] => {
+  if (!rows) return [];
+  const headers = new Set<string>();
+  rows.slice(0, sampleSize).forEach(row => {
+    Object.keys(row).forEach(key => headers.add(key));
+  });
+  return Array.from(headers);
+};
+
+// Sort a field's candidate columns by the profile-wide source order
+export const orderFieldSources = (sources: FieldSource[], sourceOrder: SourceId[]): FieldSource[] => {
+  const rank = (source: SourceId) => {
+    const position = sourceOrder.indexOf(source);
+    return position === -1 ? sourceOrder.length : position;
+  };
+  return [...sources].sort((a, b) => rank(a.source) - rank(b.source));
+};
+
+export const applyTransform = (transform: FieldTransform, value: unknown, context: TransformContext): unknown => {
+  if (transform === 'none' || isEmptyValue(value)) return value;
+
+  const text = String(value);
+  switch (transform) {
+    case 'trim':
+      return text.trim();
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    case 'titleCase':
+      return text.toLowerCase().replace(/(^|\s)\S/g, match => match.toUpperCase());
+    case 'stripBrandAndSku': {
+      let title = text;
+      if (!context.brand) return title;
+      // Remove brand name from title if it starts with it
+      if (title.startsWith(context.brand)) {
+        title = title.substring(context.brand.length).trim();
+      }
+      // Remove SKU from title if present
+      if (context.sku && title.includes(context.sku)) {
+        title = title.replace(context.sku, '').trim();
+      }
+      return title;
+    }
+    default:
+      return value;
+  }
+};
+
+// Resolve every mapped field for one output row. Any source row may be missing
+// for products that are not in every file; later candidates cover that case.
+export const resolveFields = (
+  fields: FieldMapping[],
+  sources: Record<SourceId, DataRow | undefined>,
+  sourceOrder: SourceId[]
+): DataRow => {
+  const raw: DataRow = {};
+  fields.forEach(mapping => {
+    const match = mapping.sources.find(({ source, column }) => !isEmptyValue(sources[source]?.[column]));
+    raw[mapping.output] = match ? sources[match.source]?.[match.column] : '';
+  });
+
+  const skuSource = sourceOrder.find(source => sources[source]?.SKU);
+  const context: TransformContext = {
+    brand: String(raw.Brand ?? ''),
+    sku: skuSource ? String(sources[skuSource]?.SKU) : '',
+  };
+
+  const resolved: DataRow = {};
+  fields.forEach(mapping => {
+    resolved[mapping.output] = applyTransform(mapping.transform, raw[mapping.output], context);
+  });
+  return resolved;
+};
+
+// Report mapped columns that no longer exist in the uploaded files
+export const findMissingColumns = (
+  fields: FieldMapping[],
+  headers: Record<SourceId, string[]>
+): { output: string; source: SourceId; column: string }[] => {
+  const missing: { output: string; source: SourceId; column: string }[] = [];
+  fields.forEach(mapping => {
+    mapping.sources.forEach(({ source, column }) => {
+      const sourceHeaders = headers[source] || [];
+      if (sourceHeaders.length > 0 && !sourceHeaders.includes(column)) {
+        missing.push({ output: mapping.output, source, column });
+      }
+    });
+  });
+  return missing;
+};
@@ -0,0 +1,129 @@
+import { DataRow } from '../types';
+import { groupBySku } from './duplicates';
+import { MergeReport } from './report';
+
+export type MatchMethod = 'ean' | 'fuzzy';
+
+export interface MatchPair {
+  deSku: string;
+  productSku: string;
+  method: MatchMethod;
+  // 0..1, where 1 is an exact EAN match
+  confidence: number;
+}
+
+export interface MatchingSettings {
+  useEan: boolean;
+  // Maximum edit distance for fuzzy SKU matching; 0 disables the fuzzy pass
+  maxEditDistance: number;
+}
+
+export const DEFAULT_MATCHING_SETTINGS: MatchingSettings = {
+  useEan: true,
+  maxEditDistance: 2,
+};
+
+export const MATCH_METHOD_LABELS: Record<MatchMethod, string> = {
+  ean: 'EAN',
+  fuzzy: 'Fuzzy SKU',
+};
+
+// The user's decisions on proposed pairs; kept with the project so every merge reuses them
+export interface MatchDecisions {
+  accepted: MatchPair[];
+  // matchKey of each rejected pair
+  rejected: string[];
+}
+
+export const matchKey = (pair: Pick<MatchPair, 'deSku' | 'productSku'>): string =>
+  `${pair.deSku}=>${pair.productSku}`;
+
+const normalizeEan = (ean: unknown): string => String(ean ?? '').replace(/\s+/g, '');
+
+// Levenshtein distance that gives up once the distance exceeds maxDistance
+export const editDistance = (a: string, b: string, maxDistance = Infinity): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const firstEan = (rows: { row: DataRow }[] | undefined): string => {
+  const withEan = rows?.find(({ row }) => normalizeEan(row.EAN));
+  return withEan ? normalizeEan(withEan.row.EAN) : '';
+};
+
+// Propose pairs between SKUs left unmatched by the SKU join: exact EAN first,
+// then the closest SKU by edit distance. Each SKU is used in at most one pair.
+export const findMatchCandidates = (
+  deData: DataRow[],
+  productData: DataRow[],
+  normalize: (sku: unknown) => string,
+  report: MergeReport,
+  settings: MatchingSettings,
+  rejected: Set<string> = new Set()
+): MatchPair[] => {
+  const candidates: MatchPair[] = [];
+  const deGroups = groupBySku(deData, normalize);
+  const productGroups = groupBySku(productData, normalize);
+  const remainingDe = new Set(report.deOnly);
+  const remainingProduct = new Set(report.productOnly);
+
+  const take = (pair: MatchPair) => {
+    candidates.push(pair);
+    remainingDe.delete(pair.deSku);
+    remainingProduct.delete(pair.productSku);
+  };
+
+  if (settings.useEan) {
+    const productByEan = new Map<string, string[]>();
+    remainingProduct.forEach(sku => {
+      const ean = firstEan(productGroups.get(sku));
+      if (!ean) return;
+      productByEan.set(ean, [...(productByEan.get(ean) || []), sku]);
+    });
+
+    Array.from(remainingDe).forEach(deSku => {
+      const ean = firstEan(deGroups.get(deSku));
+      const productSkus = (productByEan.get(ean) || []).filter(sku =>
+        remainingProduct.has(sku) && !rejected.has(matchKey({ deSku, productSku: sku }))
+      );
+      // An EAN shared by several products is not a reliable key
+      if (ean && productSkus.length === 1) {
+        take({ deSku, productSku: productSkus[0], method: 'ean', confidence: 1 });
+      }
+    });
+  }
+
+  if (settings.maxEditDistance > 0) {
+    const fuzzy: MatchPair[] = [];
+    remainingDe.forEach(deSku => {
+      remainingProduct.forEach(productSku => {
+        if (rejected.has(matchKey({ deSku, productSku }))) return;
+        const distance = editDistance(deSku.toLowerCase(), productSku.toLowerCase(), settings.maxEditDistance);
+        if (distance > settings.maxEditDistance) return;
+        const confidence = 1 - distance / Math.max(deSku.length, productSku.length);
+        fuzzy.push({ deSku, productSku, method: 'fuzzy', confidence });
+      });
+    });
+
+    fuzzy
+      .sort((a, b) => b.confidence - a.confidence)
+      .forEach(pair => {
+        if (remainingDe.has(pair.deSku) && remainingProduct.has(pair.productSku)) take(pair);
+      });
+  }
+
+  return candidates;
+};
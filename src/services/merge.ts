@@ -0,0 +1,178 @@
+import { DataRow, ProgressCallback } from '../types';
+import {
+  DE_SOURCE_ID,
+  MergeProfile,
+  MergeSource,
+  PRODUCT_SOURCE_ID,
+  SourceId,
+  isEmptyValue,
+  resolveFields,
+} from './mapping';
+import { MergeReport, createEmptyReport } from './report';
+import { MatchPair } from './matching';
+import { createSkuNormalizer } from './skuRules';
+import { buildDescription } from './description';
+import { MEASUREMENT_NOTES_COLUMN, normalizeMeasurements } from './units';
+import {
+  SHOP_CATEGORY_COLUMN,
+  SHOP_CATEGORY_ID_COLUMN,
+  SUPPLIER_CATEGORY_COLUMN,
+  SUPPLIER_SUBCATEGORY_COLUMN,
+  createCategoryMapper,
+  formatTaxonomyPath,
+} from './taxonomy';
+import {
+  DuplicateResolutions,
+  IndexedRow,
+  RESOLUTION_COLUMN,
+  describeResolution,
+  duplicateKey,
+  groupBySku,
+  resolveDuplicate,
+  toRowNumber,
+} from './duplicates';
+
+export interface MergeOptions {
+  resolutions?: DuplicateResolutions;
+  // Pairs accepted from the secondary EAN / fuzzy matching pass
+  matches?: MatchPair[];
+  onProgress?: ProgressCallback;
+}
+
+export interface MergeResult {
+  rows: DataRow[];
+  report: MergeReport;
+}
+
+const collectSkipped = (source: MergeSource, normalize: (sku: unknown) => string): DataRow[] =>
+  source.rows.flatMap((row, index) => {
+    // Blank lines (e.g. a trailing newline in a CSV) are not worth reporting
+    if (normalize(row.SKU) || Object.values(row).every(isEmptyValue)) return [];
+    return [{ Source: source.name, Row: toRowNumber(index), ...row }];
+  });
+
+const collectDuplicates = (groups: Map<string, IndexedRow[]>, source: MergeSource): DataRow[] =>
+  Array.from(groups.entries())
+    .filter(([, rows]) => rows.length > 1)
+    .flatMap(([sku, rows]) =>
+      rows.map(({ index, row }) => ({
+        Source: source.name,
+        Row: toRowNumber(index),
+        'Normalized SKU': sku,
+        ...row,
+      }))
+    );
+
+// Profile order first, then any sources the profile does not know about yet
+export const getSourceOrder = (profile: MergeProfile, sources: Pick<MergeSource, 'id'>[]): SourceId[] => {
+  const ids = sources.map(source => source.id);
+  return [
+    ...profile.sourceOrder.filter(id => ids.includes(id)),
+    ...ids.filter(id => !profile.sourceOrder.includes(id)),
+  ];
+};
+
+// Full outer join of every source on normalized SKU
+export const mergeRows = (
+  sources: MergeSource[],
+  profile: MergeProfile,
+  { resolutions = {}, matches = [], onProgress }: MergeOptions = {}
+): MergeResult => {
+  const mergedResults: DataRow[] = [];
+  const report = createEmptyReport();
+  const normalizeSKU = createSkuNormalizer(profile.skuRules);
+  const sourceOrder = getSourceOrder(profile, sources);
+  const orderedSources = sourceOrder.map(id => sources.find(source => source.id === id)!);
+  const mapCategory = profile.categories.taxonomy.length > 0 ? createCategoryMapper(profile.categories) : null;
+
+  // Group rows by normalized SKU so duplicates can be resolved instead of overwritten
+  const groups = new Map<SourceId, Map<string, IndexedRow[]>>();
+  orderedSources.forEach(source => {
+    groups.set(source.id, groupBySku(source.rows, normalizeSKU));
+    report.skipped.push(...collectSkipped(source, normalizeSKU));
+  });
+
+  // Join accepted secondary matches by filing the product rows under the DE SKU
+  const deGroups = groups.get(DE_SOURCE_ID);
+  const productGroups = groups.get(PRODUCT_SOURCE_ID);
+  if (deGroups && productGroups) {
+    matches.forEach(pair => {
+      const productRows = productGroups.get(pair.productSku);
+      if (!deGroups.has(pair.deSku) || !productRows || productGroups.has(pair.deSku)) return;
+      productGroups.set(pair.deSku, productRows);
+      productGroups.delete(pair.productSku);
+      report.secondaryMatches.push(pair);
+    });
+  }
+
+  orderedSources.forEach(source => {
+    report.duplicates.push(...collectDuplicates(groups.get(source.id)!, source));
+  });
+  const hasDuplicates = report.duplicates.length > 0;
+
+  // Output rows follow the source order, each SKU at its first appearance
+  const skus = new Set<string>();
+  groups.forEach(sourceGroups => sourceGroups.forEach((_, sku) => skus.add(sku)));
+
+  let done = 0;
+  for (const normalizedSku of skus) {
+    onProgress?.(done++ / skus.size);
+    const notes: string[] = [];
+    const items: Record<SourceId, DataRow | undefined> = {};
+
+    orderedSources.forEach(source => {
+      const rows = groups.get(source.id)!.get(normalizedSku);
+      if (!rows) return;
+      if (rows.length === 1) {
+        items[source.id] = rows[0].row;
+        return;
+      }
+      const resolution = resolutions[duplicateKey(source.id, normalizedSku)];
+      notes.push(describeResolution(source.name, rows, resolution));
+      items[source.id] = resolveDuplicate(rows, resolution);
+    });
+
+    const deItem = items[DE_SOURCE_ID];
+    const productItem = items[PRODUCT_SOURCE_ID];
+    if (deItem && productItem) {
+      report.matched.push(normalizedSku);
+    } else if (deItem) {
+      report.deOnly.push(normalizedSku);
+    } else if (productItem) {
+      report.productOnly.push(normalizedSku);
+    } else {
+      report.otherOnly.push(normalizedSku);
+    }
+
+    const { row, notes: measurementNotes } = normalizeMeasurements(
+      {
+        SKU: normalizedSku,
+        ...resolveFields(profile.fields, items, sourceOrder),
+        description: buildDescription(profile.description, items),
+      },
+      profile.measurements
+    );
+    if (mapCategory) {
+      const node = mapCategory(row);
+      row[SHOP_CATEGORY_COLUMN] = node ? formatTaxonomyPath(node) : '';
+      row[SHOP_CATEGORY_ID_COLUMN] = node ? node.id : '';
+      const hasCategory = !isEmptyValue(row[SUPPLIER_CATEGORY_COLUMN]) || !isEmptyValue(row[SUPPLIER_SUBCATEGORY_COLUMN]);
+      if (!node && hasCategory) report.unmappedCategories.push(normalizedSku);
+    }
+    if (hasDuplicates) row[RESOLUTION_COLUMN] = notes.join('; ');
+    if (measurementNotes.length > 0) {
+      report.measurements.push(normalizedSku);
+      row[MEASUREMENT_NOTES_COLUMN] = measurementNotes.join('; ');
+    }
+    mergedResults.push(row);
+  }
+
+  // Every row gets the notes column once any row has one, so the column lines up in exports
+  if (report.measurements.length > 0) {
+    mergedResults.forEach(row => {
+      if (!(MEASUREMENT_NOTES_COLUMN in row)) row[MEASUREMENT_NOTES_COLUMN] = '';
+    });
+  }
+
+  return { rows: mergedResults, report };
+};
@@ -0,0 +1,54 @@
+import { DataRow } from '../types';
+
+// A manual edit of one merged cell, kept by SKU so it survives the next merge
+export interface CellOverride {
+  sku: string;
+  column: string;
+  value: unknown;
+  // What the merge produced for the cell, refreshed on every merge; reverting restores it
+  original: unknown;
+  updatedAt: number;
+}
+
+// One undoable step: the override of a cell before and after the change
+export interface OverrideChange {
+  sku: string;
+  column: string;
+  before: CellOverride | null;
+  after: CellOverride | null;
+}
+
+export const overrideKey = (sku: string, column: string) => `${sku}\u0000${column}`;
+
+export const rowSku = (row: DataRow): string | null =>
+  row.SKU === undefined || row.SKU === null || row.SKU === '' ? null : String(row.SKU);
+
+// Writes the overrides over freshly merged rows. Only edited rows are copied, and each
+// override gets the newly merged value as its original.
+export const applyOverrides = (
+  rows: DataRow[],
+  overrides: CellOverride[]
+): { rows: DataRow[]; overrides: CellOverride[] } => {
+  if (overrides.length === 0) return { rows, overrides };
+
+  const bySku = new Map<string, CellOverride[]>();
+  overrides.forEach(override => bySku.set(override.sku, [...(bySku.get(override.sku) || []), override]));
+
+  const refreshed = new Map<string, CellOverride>();
+  const result = rows.map(row => {
+    const sku = rowSku(row);
+    const cells = sku === null ? undefined : bySku.get(sku);
+    if (!cells) return row;
+    const edited = { ...row };
+    cells.forEach(override => {
+      refreshed.set(overrideKey(override.sku, override.column), { ...override, original: row[override.column] });
+      edited[override.column] = override.value;
+    });
+    return edited;
+  });
+
+  return {
+    rows: result,
+    overrides: overrides.map(override => refreshed.get(overrideKey(override.sku, override.column)) || override),
+  };
+};
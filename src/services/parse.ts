@@ -0,0 +1,455 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { DataRow, ProgressCallback } from '../types';
+import { NUMERIC_COLUMNS, isNumeric } from './validation';
+
+export interface ExcelImportOptions {
+  // Sheets to read, concatenated in this order; they must share the same columns
+  sheets: string[];
+  // Zero-based header row; left out to detect it per sheet
+  headerRow?: number;
+}
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvImportOptions {
+  encoding: CsvEncoding;
+  delimiter: string;
+  quoteChar: string;
+  // Numeric columns written with a decimal comma are converted to a decimal point
+  decimalSeparator: '.' | ',';
+}
+
+export interface ImportOptions {
+  excel?: ExcelImportOptions;
+  csv?: CsvImportOptions;
+}
+
+export interface ParseCallbacks {
+  onProgress?: ProgressCallback;
+  // Receives the parsed rows in order, a chunk at a time; parsing waits until it resolves
+  onChunk: (rows: DataRow[]) => Promise<void> | void;
+}
+
+// Where the rows sit in the file they were read from: each run of rows that follow one another
+// starts with [position of its first row, spreadsheet row number]. Empty when every row sits right
+// below a header on the first row.
+export type RowNumbers = [number, number][];
+
+// What is left of a file once its rows have been handed over
+export interface ParsedFile {
+  headers: string[];
+  rowCount: number;
+  // Set for uploaded files, whose issues are reported by their row in the sheet
+  rowNumbers?: RowNumbers;
+}
+
+export interface SheetSummary {
+  name: string;
+  // Non-blank rows below the detected header
+  rowCount: number;
+  detectedHeaderRow: number;
+  // Raw cell text of the first rows, header candidates included
+  preview: string[][];
+}
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 (Western European)',
+};
+
+export const CSV_DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+export const DEFAULT_CSV_OPTIONS: CsvImportOptions = {
+  encoding: 'utf-8',
+  delimiter: ',',
+  quoteChar: '"',
+  decimalSeparator: '.',
+};
+
+const HEADER_SCAN_ROWS = 20;
+const PREVIEW_ROWS = 10;
+// Enough of the file to sniff the dialect without decoding all of it
+const SNIFF_BYTES = 64 * 1024;
+const SNIFF_LINES = 20;
+// Bytes read and decoded at a time
+const CSV_CHUNK_SIZE = 1024 * 1024;
+const EXCEL_CHUNK_ROWS = 5000;
+
+export const getFileType = (file: File): string => file.name.split('.').pop()?.toLowerCase() || '';
+
+export const isExcelFile = (file: File): boolean => ['xlsx', 'xls'].includes(getFileType(file));
+
+const readFileBuffer = (file: File): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const buffer = e.target?.result;
+      if (buffer instanceof ArrayBuffer) {
+        resolve(buffer);
+      } else {
+        reject(new Error(`Failed to read file buffer for ${file.name}.`));
+      }
+    };
+    reader.onerror = (error) => {
+      console.error(`FileReader error for file ${file.name}:`, error);
+      reject(new Error(`FileReader failed for ${file.name}.`));
+    };
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+// The start of the file, enough to detect and preview a CSV dialect
+export const readFileStart = async (file: File): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const buffer = await readFileBuffer(file);
+  console.log(`Attempting to parse workbook with SheetJS: ${file.name}`);
+  try {
+    return XLSX.read(buffer, { type: 'array' });
+  } catch (error) {
+    console.error(`Error parsing Excel file ${file.name} with SheetJS:`, error);
+    throw new Error(`Error parsing Excel file ${file.name} with SheetJS: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+};
+
+// Every row of the sheet as cell text, blank rows kept so indexes match the sheet
+const getSheetCells = (workbook: XLSX.WorkBook, sheetName: string): string[][] => {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet) {
+    throw new Error(`Worksheet "${sheetName}" not found in the Excel file.`);
+  }
+  return XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', raw: false, blankrows: true })
+    .map(row => row.map(cell => String(cell ?? '')));
+};
+
+const isBlankRow = (row: string[]) => row.every(cell => cell.trim() === '');
+
+// The header is the earliest row with the most distinct text labels: banner rows above it
+// fill only a cell or two, and data rows below it mix in numbers
+export const detectHeaderRow = (cells: string[][]): number => {
+  let headerRow = 0;
+  let bestScore = 0;
+  cells.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const labels = row.map(cell => cell.trim()).filter(cell => cell && !isNumeric(cell));
+    const score = new Set(labels).size;
+    if (score > bestScore) {
+      headerRow = index;
+      bestScore = score;
+    }
+  });
+  return headerRow;
+};
+
+// Same naming as SheetJS: blank headers become __EMPTY, repeated ones get a _1, _2 suffix
+const toColumnNames = (headerCells: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return headerCells.map(cell => {
+    const base = cell.trim() || '__EMPTY';
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count}`;
+  });
+};
+
+const readSheet = (workbook: XLSX.WorkBook, sheetName: string, headerRow?: number) => {
+  const cells = getSheetCells(workbook, sheetName);
+  const headerIndex = headerRow ?? detectHeaderRow(cells);
+  const columns = toColumnNames(cells[headerIndex] || []);
+  const rows: DataRow[] = [];
+  const rowNumbers: RowNumbers = [];
+  cells.forEach((row, index) => {
+    if (index <= headerIndex || isBlankRow(row)) return;
+    // Banner rows above the header and blank rows in between move the rows down the sheet
+    const run = rowNumbers[rowNumbers.length - 1];
+    if (!run || run[1] + rows.length - run[0] !== index + 1) rowNumbers.push([rows.length, index + 1]);
+    rows.push(Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])) as DataRow);
+  });
+  return { columns, rows, rowNumbers };
+};
+
+export const summarizeSheets = (workbook: XLSX.WorkBook): SheetSummary[] =>
+  workbook.SheetNames.map(name => {
+    const cells = getSheetCells(workbook, name);
+    const detectedHeaderRow = detectHeaderRow(cells);
+    return {
+      name,
+      rowCount: cells.slice(detectedHeaderRow + 1).filter(row => !isBlankRow(row)).length,
+      detectedHeaderRow,
+      preview: cells.slice(0, Math.max(PREVIEW_ROWS, detectedHeaderRow + 4)),
+    };
+  });
+
+// A single sheet with its header on the first row needs no choices from the user
+export const needsSheetSelection = (workbook: XLSX.WorkBook): boolean => {
+  if (workbook.SheetNames.length !== 1) return true;
+  return detectHeaderRow(getSheetCells(workbook, workbook.SheetNames[0])) > 0;
+};
+
+export const defaultExcelOptions = (workbook: XLSX.WorkBook): ExcelImportOptions => ({
+  sheets: workbook.SheetNames.slice(0, 1),
+});
+
+// The chosen sheets, which must share their columns
+const readSheets = (workbook: XLSX.WorkBook, options: ExcelImportOptions, onProgress?: ProgressCallback) => {
+  if (options.sheets.length === 0) {
+    throw new Error('No worksheet found in the Excel file.');
+  }
+
+  const [first, ...rest] = options.sheets.map((sheetName, index) => {
+    const sheet = { sheetName, ...readSheet(workbook, sheetName, options.headerRow) };
+    onProgress?.((index + 1) / options.sheets.length);
+    return sheet;
+  });
+  rest.forEach(sheet => {
+    if (sheet.columns.join('\u0000') !== first.columns.join('\u0000')) {
+      throw new Error(`Sheet "${sheet.sheetName}" has different columns than "${first.sheetName}" and cannot be combined with it.`);
+    }
+  });
+
+  console.log(`Using worksheet(s): ${options.sheets.join(', ')}`);
+  return [first, ...rest];
+};
+
+export const parseWorkbook = (
+  workbook: XLSX.WorkBook,
+  options: ExcelImportOptions,
+  onProgress?: ProgressCallback
+): DataRow[] => readSheets(workbook, options, onProgress).flatMap(sheet => sheet.rows);
+
+// A byte order mark settles it; otherwise UTF-16 shows as zero bytes in every other position,
+// and anything that is not valid UTF-8 is taken to be a Windows export
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, 1000);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, i) => {
+    if (byte !== 0) return;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  });
+  if (oddZeros > sample.length / 4) return 'utf-16le';
+  if (evenZeros > sample.length / 4) return 'utf-16be';
+
+  try {
+    // stream: a multi-byte character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, SNIFF_BYTES), { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// TextDecoder drops the byte order mark itself; stream leaves out a character cut off at the end of the sample
+const decodeStart = (bytes: Uint8Array, encoding: CsvEncoding): string =>
+  new TextDecoder(encoding).decode(bytes.subarray(0, SNIFF_BYTES), { stream: true });
+
+const countOutsideQuotes = (line: string, delimiter: string, quoteChar: string): number => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === quoteChar) quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+// The delimiter splits every line into the same number of fields; ties go to the one splitting into more
+export const detectDelimiter = (text: string, quoteChar = DEFAULT_CSV_OPTIONS.quoteChar): string => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, SNIFF_LINES);
+  let best = DEFAULT_CSV_OPTIONS.delimiter;
+  let bestScore = 0;
+  Object.keys(CSV_DELIMITER_LABELS).forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter, quoteChar));
+    const consistent = counts.every(count => count === counts[0]);
+    const average = counts.reduce((sum, count) => sum + count, 0) / (counts.length || 1);
+    const score = consistent ? average * 1000 : average;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const COMMA_DECIMAL = /^-?\d{1,3}(?:[ .]\d{3})*,\d+$|^-?\d+,\d+$/;
+const POINT_DECIMAL = /^-?\d{1,3}(?:[ ,]\d{3})*\.\d+$|^-?\d+\.\d+$/;
+
+export const detectDecimalSeparator = (rows: string[][], delimiter: string): '.' | ',' => {
+  // A comma-delimited file cannot use unquoted decimal commas, so quoted ones would be rare
+  if (delimiter === ',') return '.';
+  const cells = rows.slice(1).flat().map(cell => cell.trim());
+  const commas = cells.filter(cell => COMMA_DECIMAL.test(cell)).length;
+  const points = cells.filter(cell => POINT_DECIMAL.test(cell)).length;
+  return commas > points ? ',' : '.';
+};
+
+const parseCsvCells = (text: string, options: CsvImportOptions, preview = 0): string[][] =>
+  Papa.parse<string[]>(text, {
+    delimiter: options.delimiter,
+    quoteChar: options.quoteChar,
+    skipEmptyLines: true,
+    preview,
+  }).data;
+
+export const sniffCsv = (bytes: Uint8Array): CsvImportOptions => {
+  const encoding = detectEncoding(bytes);
+  const text = decodeStart(bytes, encoding);
+  const delimiter = detectDelimiter(text);
+  const options = { ...DEFAULT_CSV_OPTIONS, encoding, delimiter };
+  return {
+    ...options,
+    decimalSeparator: detectDecimalSeparator(parseCsvCells(text, options, SNIFF_LINES), delimiter),
+  };
+};
+
+export const previewCsv = (bytes: Uint8Array, options: CsvImportOptions): string[][] =>
+  parseCsvCells(decodeStart(bytes, options.encoding), options, PREVIEW_ROWS);
+
+const toDecimalPoint = (value: unknown): unknown => {
+  if (typeof value !== 'string' || !COMMA_DECIMAL.test(value.trim())) return value;
+  return value.trim().replace(/[ .]/g, '').replace(',', '.');
+};
+
+const withDecimalPoint = (row: DataRow): DataRow => {
+  const converted = { ...row };
+  NUMERIC_COLUMNS.forEach(column => {
+    if (column in converted) converted[column] = toDecimalPoint(converted[column]);
+  });
+  return converted;
+};
+
+// Length of the text up to the end of its first (or last) line break outside quotes, or 0 without one
+const recordsLength = (text: string, quoteChar: string, first = false): number => {
+  let quoted = false;
+  let end = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === quoteChar) {
+      quoted = !quoted;
+    } else if (char === '\n' && !quoted) {
+      end = i + 1;
+      if (first) break;
+    }
+  }
+  return end;
+};
+
+// The file is read and decoded a slice at a time and parsed up to the last complete record; the
+// rest waits for the next slice. Only the current slice is held, so large files parse in flat memory.
+export const parseCsvFile = async (
+  file: File,
+  options: CsvImportOptions | undefined,
+  { onProgress, onChunk }: ParseCallbacks
+): Promise<ParsedFile> => {
+  const dialect = options || sniffCsv(await readFileStart(file));
+  const decoder = new TextDecoder(dialect.encoding);
+  // Every slice after the first is parsed with the header line in front of it
+  let headerLine: string | null = null;
+  let headers: string[] = [];
+  let rowCount = 0;
+
+  const parseRecords = async (text: string) => {
+    const results = Papa.parse<DataRow>(headerLine === null ? text : headerLine + text, {
+      header: true,
+      delimiter: dialect.delimiter,
+      quoteChar: dialect.quoteChar,
+    });
+    if (headerLine === null) {
+      headerLine = text.slice(0, recordsLength(text, dialect.quoteChar, true) || text.length).replace(/\r?\n$/, '');
+      headers = results.meta.fields || [];
+    }
+    const rows = dialect.decimalSeparator === ',' ? results.data.map(withDecimalPoint) : results.data;
+    rowCount += rows.length;
+    await onChunk(rows);
+  };
+
+  // Slices are cut in front of the line break ending their last complete record. Papa reads a final
+  // line break as one more, empty record, so the break stays with the next slice, where it only
+  // ends a record if the file does.
+  let pending = '';
+  for (let start = 0; start < file.size; start += CSV_CHUNK_SIZE) {
+    const bytes = new Uint8Array(await file.slice(start, start + CSV_CHUNK_SIZE).arrayBuffer());
+    pending += decoder.decode(bytes, { stream: true });
+    const end = recordsLength(pending, dialect.quoteChar);
+    const cut = end - (pending[end - 2] === '\r' ? 2 : 1);
+    if (end > 0 && (headerLine !== null || cut > 0)) {
+      await parseRecords(pending.slice(0, cut));
+      pending = pending.slice(cut);
+    }
+    onProgress?.(Math.min(1, (start + CSV_CHUNK_SIZE) / file.size));
+  }
+  pending += decoder.decode();
+  if (pending || headerLine === null) await parseRecords(pending);
+
+  console.log(`Parsed ${rowCount} rows from ${file.name} (${dialect.encoding}, delimiter ${JSON.stringify(dialect.delimiter)})`);
+  // A CSV record is a spreadsheet row, below the header line
+  return { headers, rowCount, rowNumbers: [] };
+};
+
+export const sameCsvOptions = (a: CsvImportOptions, b: CsvImportOptions): boolean =>
+  a.encoding === b.encoding &&
+  a.delimiter === b.delimiter &&
+  a.quoteChar === b.quoteChar &&
+  a.decimalSeparator === b.decimalSeparator;
+
+// SheetJS reads the whole workbook at once, so the rows are handed over in chunks afterwards
+export const parseExcelFile = async (
+  file: File,
+  options: ExcelImportOptions | undefined,
+  { onProgress, onChunk }: ParseCallbacks
+): Promise<ParsedFile> => {
+  const workbook = await readWorkbook(file);
+  const sheets = readSheets(workbook, options || defaultExcelOptions(workbook), onProgress);
+  let rowCount = 0;
+  const rowNumbers: RowNumbers = [];
+  for (const { rows, rowNumbers: sheetRowNumbers } of sheets) {
+    for (let start = 0; start < rows.length; start += EXCEL_CHUNK_ROWS) {
+      await onChunk(rows.slice(start, start + EXCEL_CHUNK_ROWS));
+    }
+    sheetRowNumbers.forEach(([position, rowNumber]) => rowNumbers.push([rowCount + position, rowNumber]));
+    rowCount += rows.length;
+  }
+  console.log(`Parsed ${rowCount} data rows with SheetJS from ${file.name}`);
+  return { headers: sheets[0].columns, rowCount, rowNumbers };
+};
+
+// Hands the rows over chunk by chunk without keeping them
+export const streamFile = async (
+  file: File,
+  options: ImportOptions = {},
+  callbacks: ParseCallbacks
+): Promise<ParsedFile> => {
+  const fileType = getFileType(file);
+
+  if (fileType === 'csv') {
+    return parseCsvFile(file, options.csv, callbacks);
+  } else if (fileType === 'xlsx' || fileType === 'xls') {
+    return parseExcelFile(file, options.excel, callbacks);
+  }
+
+  throw new Error('Unsupported file type');
+};
+
+// Every row at once, for small files such as translations and taxonomies
+export const parseFile = async (
+  file: File,
+  options: ImportOptions = {},
+  onProgress?: ProgressCallback
+): Promise<DataRow[]> => {
+  const rows: DataRow[] = [];
+  await streamFile(file, options, { onProgress, onChunk: chunk => chunk.forEach(row => rows.push(row)) });
+  return rows;
+};
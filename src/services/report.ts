@@ -0,0 +1,72 @@
+import { DataRow } from '../types';
+import { MatchPair } from './matching';
+
+export type ReportCategory = 'matched' | 'deOnly' | 'productOnly' | 'otherOnly' | 'skipped' | 'duplicates' | 'measurements' | 'unmappedCategories';
+
+export interface MergeReport {
+  matched: string[];
+  deOnly: string[];
+  productOnly: string[];
+  // SKUs found only in additional sources, in neither the DE nor the Product Information file
+  otherOnly: string[];
+  // Source rows without a usable SKU, tagged with their file and row number
+  skipped: DataRow[];
+  // Every source row that shared its normalized SKU with another row in the same file
+  duplicates: DataRow[];
+  // SKUs whose measurements could not be read or whose volume disagrees with the package size
+  measurements: string[];
+  // SKUs with a supplier category pair that has no shop category yet; empty until a taxonomy is imported
+  unmappedCategories: string[];
+  // Matched SKUs that were joined by EAN or fuzzy SKU rather than exact SKU
+  secondaryMatches: MatchPair[];
+}
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  matched: 'Matched SKUs',
+  deOnly: 'DE only',
+  productOnly: 'Product Info only',
+  otherOnly: 'Other sources only',
+  skipped: 'Skipped (no SKU)',
+  duplicates: 'Duplicate rows',
+  measurements: 'Measurement issues',
+  unmappedCategories: 'Unmapped categories',
+};
+
+export const REPORT_FILE_NAMES: Record<ReportCategory, string> = {
+  matched: 'matched',
+  deOnly: 'de_only',
+  productOnly: 'product_only',
+  otherOnly: 'other_sources_only',
+  skipped: 'skipped_missing_sku',
+  duplicates: 'duplicate_rows',
+  measurements: 'measurement_issues',
+  unmappedCategories: 'unmapped_categories',
+};
+
+export const createEmptyReport = (): MergeReport => ({
+  matched: [],
+  deOnly: [],
+  productOnly: [],
+  otherOnly: [],
+  skipped: [],
+  duplicates: [],
+  measurements: [],
+  unmappedCategories: [],
+  secondaryMatches: [],
+});
+
+export const getReportCount = (report: MergeReport, category: ReportCategory): number =>
+  report[category].length;
+
+// Skipped and duplicate rows are source rows tagged with their file and kept in the report; the
+// other categories list SKUs, whose rows are read from the stored merged data
+export const isRowCategory = (category: ReportCategory): category is 'skipped' | 'duplicates' =>
+  category === 'skipped' || category === 'duplicates';
+
+// Every SKU of the merged data: each lands in exactly one of these categories
+export const getMergedSkus = (report: MergeReport): string[] => [
+  ...report.matched,
+  ...report.deOnly,
+  ...report.productOnly,
+  ...report.otherOnly,
+];
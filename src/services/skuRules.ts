@@ -0,0 +1,164 @@
+export type SkuRuleType = 'regexStrip' | 'caseFold' | 'zeroPad' | 'lookup';
+
+interface BaseSkuRule {
+  id: string;
+  type: SkuRuleType;
+  enabled: boolean;
+}
+
+export interface RegexStripRule extends BaseSkuRule {
+  type: 'regexStrip';
+  pattern: string;
+  flags: string;
+}
+
+export interface CaseFoldRule extends BaseSkuRule {
+  type: 'caseFold';
+  mode: 'upper' | 'lower';
+}
+
+export interface ZeroPadRule extends BaseSkuRule {
+  type: 'zeroPad';
+  // 'pad' left-pads numeric SKUs to the given length, 'trim' strips leading zeros
+  mode: 'pad' | 'trim';
+  length: number;
+}
+
+export interface LookupRule extends BaseSkuRule {
+  type: 'lookup';
+  entries: { from: string; to: string }[];
+}
+
+export type SkuRule = RegexStripRule | CaseFoldRule | ZeroPadRule | LookupRule;
+
+export const SKU_RULE_LABELS: Record<SkuRuleType, string> = {
+  regexStrip: 'Regex strip',
+  caseFold: 'Case fold',
+  zeroPad: 'Zero pad / trim',
+  lookup: 'Lookup table',
+};
+
+// Reproduces the original B34 prefix / V1 suffix handling
+export const DEFAULT_SKU_RULES: SkuRule[] = [
+  { id: 'strip-b34', type: 'regexStrip', enabled: true, pattern: '^b34', flags: 'i' },
+  { id: 'strip-v1', type: 'regexStrip', enabled: true, pattern: 'v1$', flags: 'i' },
+];
+
+export const createSkuRule = (type: SkuRuleType): SkuRule => {
+  const id = crypto.randomUUID();
+  switch (type) {
+    case 'regexStrip':
+      return { id, type, enabled: true, pattern: '', flags: 'i' };
+    case 'caseFold':
+      return { id, type, enabled: true, mode: 'upper' };
+    case 'zeroPad':
+      return { id, type, enabled: true, mode: 'trim', length: 0 };
+    case 'lookup':
+      return { id, type, enabled: true, entries: [] };
+  }
+};
+
+// Returns the compile error for a regex rule, or null when the pattern is usable
+export const getRuleError = (rule: SkuRule): string | null => {
+  if (rule.type !== 'regexStrip') return null;
+  if (!rule.pattern) return 'Pattern is empty';
+  try {
+    new RegExp(rule.pattern, rule.flags);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+};
+
+const compileRule = (rule: SkuRule): ((sku: string) => string) | null => {
+  if (!rule.enabled || getRuleError(rule)) return null;
+
+  switch (rule.type) {
+    case 'regexStrip': {
+      // Always strip every occurrence so patterns like \s+ remove internal whitespace
+      const flags = rule.flags.includes('g') ? rule.flags : `${rule.flags}g`;
+      const regex = new RegExp(rule.pattern, flags);
+      return (sku) => sku.replace(regex, '');
+    }
+    case 'caseFold':
+      return rule.mode === 'upper' ? (sku) => sku.toUpperCase() : (sku) => sku.toLowerCase();
+    case 'zeroPad':
+      if (rule.mode === 'trim') {
+        return (sku) => sku.replace(/^0+(?=.)/, '');
+      }
+      return (sku) => (/^\d+$/.test(sku) ? sku.padStart(rule.length, '0') : sku);
+    case 'lookup': {
+      const table = new Map(rule.entries.map(entry => [entry.from.trim(), entry.to.trim()]));
+      return (sku) => table.get(sku) ?? sku;
+    }
+  }
+};
+
+// Compile the rule list once and reuse the resulting function for every row
+export const createSkuNormalizer = (rules: SkuRule[]): ((sku: unknown) => string) => {
+  const steps = rules
+    .map(compileRule)
+    .filter((step): step is (sku: string) => string => step !== null);
+
+  return (sku: unknown) => {
+    if (sku === undefined || sku === null) return '';
+    let normalized = String(sku).trim();
+    if (!normalized) return '';
+    for (const step of steps) {
+      normalized = step(normalized).trim();
+    }
+    return normalized;
+  };
+};
+
+export interface SkuSample {
+  raw: string;
+  normalized: string;
+  // The normalized SKU is also in the other file
+  matched: boolean;
+}
+
+// How many DE SKUs the rules match to a Product Information SKU, with the first few of each file
+export interface SkuRulesPreview {
+  matched: number;
+  deCount: number;
+  productCount: number;
+  deSamples: SkuSample[];
+  productSamples: SkuSample[];
+}
+
+export const previewSkuRules = (
+  deSkus: unknown[],
+  productSkus: unknown[],
+  rules: SkuRule[],
+  sampleSize = 8
+): SkuRulesPreview => {
+  const normalize = createSkuNormalizer(rules);
+  const deNormalized = new Set(deSkus.map(normalize).filter(Boolean));
+  const productNormalized = new Set(productSkus.map(normalize).filter(Boolean));
+  const matched = Array.from(deNormalized).filter(sku => productNormalized.has(sku)).length;
+
+  const sample = (skus: unknown[], other: Set<string>) =>
+    skus.filter(Boolean).slice(0, sampleSize).map(sku => {
+      const normalized = normalize(sku);
+      return { raw: String(sku), normalized, matched: other.has(normalized) };
+    });
+
+  return {
+    matched,
+    deCount: deNormalized.size,
+    productCount: productNormalized.size,
+    deSamples: sample(deSkus, productNormalized),
+    productSamples: sample(productSkus, deNormalized),
+  };
+};
+
+export const parseLookupEntries = (text: string): { from: string; to: string }[] =>
+  text
+    .split('\n')
+    .map(line => line.split('=>'))
+    .filter(parts => parts.length === 2 && parts[0].trim() !== '')
+    .map(([from, to]) => ({ from: from.trim(), to: to.trim() }));
+
+export const formatLookupEntries = (entries: { from: string; to: string }[]): string =>
+  entries.map(entry => `${entry.from} => ${entry.to}`).join('\n');
@@ -0,0 +1,250 @@
+import { DataRow, ProgressCallback } from '../types';
+import { DBService, stagingFileId } from './db';
+import { DE_SOURCE_ID, MergeProfile, MergeSource, PRODUCT_SOURCE_ID, getHeaders } from './mapping';
+import { MergeOptions, mergeRows } from './merge';
+import { DuplicateGroup, findDuplicateGroups } from './duplicates';
+import { ImportOptions, ParsedFile, parseFile, streamFile } from './parse';
+import { SkuRule, SkuRulesPreview, createSkuNormalizer, previewSkuRules } from './skuRules';
+import {
+  LanguageTranslations,
+  TranslatedColumns,
+  TranslationCoverage,
+  applyTranslations,
+  checkTranslationCoverage,
+  combineTranslations,
+} from './translations';
+import { CellOverride, applyOverrides } from './overrides';
+import { DataTransform, TransformPreview, applyDataTransforms, previewTransform } from './transforms';
+import { MatchPair, MatchingSettings, findMatchCandidates } from './matching';
+import { MergeReport } from './report';
+import { ValidationIssue, validateSources } from './validation';
+import { DescriptionSample, findDescriptionSamples } from './description';
+import { CategoryPair, collectCategoryPairs } from './taxonomy';
+import { GridState, projectColumns, queryRows } from './grid';
+import { ImageSummary, summarizeImages } from './images';
+import { DatasetDiff, diffDatasets } from './diff';
+import { ExportFormat, buildColumnExtract, toBlob, toXlsxBlob } from './export';
+
+// The rows of one file in IndexedDB, which a task reads or replaces with its output
+export interface StoredTable {
+  projectId: string;
+  fileId: string;
+}
+
+// A merge input whose rows the worker reads from the file stored under its id
+export type SourceRef = Omit<MergeSource, 'rows'>;
+
+// Which rows of a stored table a task reads, and in which order; every row in file order by default
+export interface RowSelection {
+  // Sort, filters and search of the grid showing the table
+  query?: GridState;
+  // Only the rows with these SKUs, e.g. one category of the merge report
+  skus?: string[];
+}
+
+// Heavy jobs that run in the data worker. Everything in a task is structured-cloned across the
+// worker boundary, so tasks carry plain data and no callbacks. Rows stay in IndexedDB: tasks name
+// the stored files they read and write, and return what the page shows rather than the rows.
+export type Task =
+  // Small files such as translations and taxonomies, whose rows come back
+  | { type: 'parse'; file: File; options?: ImportOptions }
+  | { type: 'import'; file: File; options?: ImportOptions; storeAs: StoredTable }
+  | { type: 'validate'; projectId: string; sources: SourceRef[] }
+  | { type: 'findDuplicates'; projectId: string; sources: SourceRef[]; skuRules: SkuRule[] }
+  | {
+      type: 'findMatches';
+      projectId: string;
+      skuRules: SkuRule[];
+      // SKUs the last merge left unmatched
+      report: MergeReport;
+      settings: MatchingSettings;
+      rejected: Set<string>;
+    }
+  | { type: 'previewSkuRules'; projectId: string; skuRules: SkuRule[] }
+  | { type: 'findDescriptionSamples'; projectId: string; sources: SourceRef[]; skuRules: SkuRule[] }
+  | {
+      type: 'merge';
+      projectId: string;
+      sources: SourceRef[];
+      profile: MergeProfile;
+      options: Omit<MergeOptions, 'onProgress'>;
+      // Find/replace and computed columns run over the merged rows, then the manual edits are written
+      transforms?: DataTransform[];
+      overrides?: CellOverride[];
+      storeAs: StoredTable;
+      // File id the previously merged rows move to instead of being deleted
+      keepPreviousAs?: string;
+    }
+  | { type: 'query'; table: StoredTable; selection: RowSelection }
+  | { type: 'export'; table: StoredTable; selection: RowSelection; columns?: string[]; format: ExportFormat }
+  | { type: 'extractColumns'; table: StoredTable; selection: RowSelection }
+  | { type: 'summarizeImages'; table: StoredTable; selection: RowSelection }
+  | { type: 'collectCategoryPairs'; table: StoredTable }
+  | { type: 'previewTransform'; table: StoredTable; transform: DataTransform; limit: number }
+  | { type: 'diff'; previous: StoredTable; current: StoredTable }
+  | { type: 'checkCoverage'; table: StoredTable; translatedColumns: TranslatedColumns; skuRules: SkuRule[] }
+  | {
+      type: 'applyTranslations';
+      table: StoredTable;
+      translatedColumns: TranslatedColumns;
+      skuRules: SkuRule[];
+      storeAs: StoredTable;
+    }
+  | { type: 'combineTranslations'; table: StoredTable; translations: LanguageTranslations; skuRules: SkuRule[] };
+
+interface TaskResults {
+  parse: DataRow[];
+  import: ParsedFile;
+  validate: ValidationIssue[];
+  findDuplicates: DuplicateGroup[];
+  findMatches: MatchPair[];
+  previewSkuRules: SkuRulesPreview;
+  findDescriptionSamples: DescriptionSample[];
+  // Overrides come back with the newly merged values as their originals
+  merge: ParsedFile & { report: MergeReport; overrides: CellOverride[] };
+  // Positions of the selected rows in the stored file
+  query: number[];
+  export: Blob;
+  // Null when the merged data lacks one of the translatable columns
+  extractColumns: Blob | null;
+  // withIssues holds positions in the stored file
+  summarizeImages: ImageSummary;
+  collectCategoryPairs: CategoryPair[];
+  previewTransform: TransformPreview;
+  diff: DatasetDiff;
+  checkCoverage: TranslationCoverage;
+  applyTranslations: ParsedFile;
+  // An XLSX workbook
+  combineTranslations: Blob;
+}
+
+export type TaskResult<T extends Task> = TaskResults[T['type']];
+
+const db = new DBService();
+
+// Cancelling terminates the worker wherever it is, so output rows are written under a staging id
+// and only replace the stored rows once all of them are written
+const storeStaged = async <R,>(
+  { projectId, fileId }: StoredTable,
+  write: (stagingId: string) => Promise<R>,
+  keepPreviousAs?: string
+): Promise<R> => {
+  const stagingId = stagingFileId(fileId);
+  // Rows left behind by a cancelled task
+  await db.deleteRows(projectId, stagingId);
+  const result = await write(stagingId);
+  await db.moveRows(projectId, stagingId, fileId, keepPreviousAs);
+  return result;
+};
+
+// Rows go to IndexedDB chunk by chunk while the file is still being parsed
+const importFile = (file: File, options: ImportOptions | undefined, target: StoredTable, onProgress: ProgressCallback) =>
+  storeStaged(target, stagingId => {
+    let stored = 0;
+    return streamFile(file, options, {
+      onProgress,
+      onChunk: async rows => {
+        await db.saveRows(target.projectId, stagingId, rows, stored);
+        stored += rows.length;
+      },
+    });
+  });
+
+const storeRows = async (target: StoredTable, rows: DataRow[], keepPreviousAs?: string): Promise<ParsedFile> => {
+  await storeStaged(target, stagingId => db.replaceRows(target.projectId, stagingId, rows), keepPreviousAs);
+  return { headers: getHeaders(rows), rowCount: rows.length };
+};
+
+const readTable = ({ projectId, fileId }: StoredTable) => db.getRows(projectId, fileId);
+
+const readSources = (projectId: string, sources: SourceRef[]): Promise<MergeSource[]> =>
+  Promise.all(sources.map(async source => ({ ...source, rows: await db.getRows(projectId, source.id) })));
+
+// The selected rows in order, each with its position in the stored file
+const selectRows = async (table: StoredTable, { query, skus }: RowSelection) => {
+  const rows = await readTable(table);
+  const skuSet = skus && new Set(skus);
+  const candidates = skuSet ? rows.filter(row => skuSet.has(String(row.SKU))) : rows;
+  const selected = query ? queryRows(candidates, query) : candidates;
+  if (selected === rows) return { rows, positions: rows.map((_, index) => index) };
+  const positions = new Map(rows.map((row, index) => [row, index]));
+  return { rows: selected, positions: selected.map(row => positions.get(row)!) };
+};
+
+export const runTask = async <T extends Task>(task: T, onProgress: ProgressCallback): Promise<TaskResult<T>> => {
+  // Each case returns the result type for its own task; TypeScript cannot narrow T itself
+  const run = async (): Promise<TaskResults[keyof TaskResults]> => {
+    switch (task.type) {
+      case 'parse':
+        return parseFile(task.file, task.options, onProgress);
+      case 'import':
+        return importFile(task.file, task.options, task.storeAs, onProgress);
+      case 'validate':
+        return validateSources(await readSources(task.projectId, task.sources));
+      case 'findDuplicates': {
+        const normalizeSKU = createSkuNormalizer(task.skuRules);
+        const sources = await readSources(task.projectId, task.sources);
+        return sources.flatMap((source, index) => {
+          onProgress(index / sources.length);
+          return findDuplicateGroups(source, normalizeSKU);
+        });
+      }
+      case 'findMatches':
+        return findMatchCandidates(
+          await db.getRows(task.projectId, DE_SOURCE_ID),
+          await db.getRows(task.projectId, PRODUCT_SOURCE_ID),
+          createSkuNormalizer(task.skuRules),
+          task.report,
+          task.settings,
+          task.rejected
+        );
+      case 'previewSkuRules': {
+        const skus = async (fileId: string) => (await db.getRows(task.projectId, fileId)).map(row => row.SKU);
+        return previewSkuRules(await skus(DE_SOURCE_ID), await skus(PRODUCT_SOURCE_ID), task.skuRules);
+      }
+      case 'findDescriptionSamples':
+        return findDescriptionSamples(
+          await readSources(task.projectId, task.sources),
+          createSkuNormalizer(task.skuRules)
+        );
+      case 'merge': {
+        const sources = await readSources(task.projectId, task.sources);
+        const result = mergeRows(sources, task.profile, { ...task.options, onProgress });
+        const transformed = applyDataTransforms(result.rows, task.transforms || []);
+        const { rows, overrides } = applyOverrides(transformed, task.overrides || []);
+        const stored = await storeRows(task.storeAs, rows, task.keepPreviousAs);
+        return { ...stored, report: result.report, overrides };
+      }
+      case 'query':
+        return (await selectRows(task.table, task.selection)).positions;
+      case 'export': {
+        const { rows } = await selectRows(task.table, task.selection);
+        return toBlob(task.columns ? projectColumns(rows, task.columns) : rows, task.format);
+      }
+      case 'extractColumns': {
+        const { rows, positions } = await selectRows(task.table, task.selection);
+        return buildColumnExtract(rows, positions);
+      }
+      case 'summarizeImages': {
+        const { rows, positions } = await selectRows(task.table, task.selection);
+        const summary = summarizeImages(rows);
+        return { ...summary, withIssues: summary.withIssues.map(index => positions[index]) };
+      }
+      case 'collectCategoryPairs':
+        return collectCategoryPairs(await readTable(task.table));
+      case 'previewTransform':
+        return previewTransform(await readTable(task.table), task.transform, task.limit);
+      case 'diff':
+        return diffDatasets(await readTable(task.previous), await readTable(task.current));
+      case 'checkCoverage':
+        return checkTranslationCoverage(await readTable(task.table), task.translatedColumns, task.skuRules);
+      case 'applyTranslations': {
+        const rows = applyTranslations(await readTable(task.table), task.translatedColumns, task.skuRules, onProgress);
+        return storeRows(task.storeAs, rows);
+      }
+      case 'combineTranslations':
+        return toXlsxBlob(combineTranslations(await readTable(task.table), task.translations, task.skuRules, onProgress));
+    }
+  };
+  return run() as Promise<TaskResult<T>>;
+};
@@ -0,0 +1,109 @@
+import { DataRow } from '../types';
+
+// A category in our own shop tree
+export interface TaxonomyNode {
+  id: string;
+  // From the top level down, e.g. ['Home', 'Lighting', 'Table lamps']
+  path: string[];
+}
+
+export interface CategorySettings {
+  taxonomy: TaxonomyNode[];
+  // Supplier category/subcategory pair key → taxonomy node id
+  assignments: Record<string, string>;
+}
+
+export const DEFAULT_CATEGORY_SETTINGS: CategorySettings = {
+  taxonomy: [],
+  assignments: {},
+};
+
+// Merged columns the supplier pair is read from
+export const SUPPLIER_CATEGORY_COLUMN = 'Category';
+export const SUPPLIER_SUBCATEGORY_COLUMN = 'Subcategory';
+
+// Added to the merged rows once a taxonomy has been imported
+export const SHOP_CATEGORY_COLUMN = 'Shop category';
+export const SHOP_CATEGORY_ID_COLUMN = 'Shop category ID';
+
+export const PATH_SEPARATOR = ' > ';
+
+export interface CategoryPair {
+  category: string;
+  subcategory: string;
+  // Merged products with this pair
+  count: number;
+}
+
+const clean = (value: unknown) => String(value ?? '').trim().replace(/\s+/g, ' ');
+
+// Case and spacing do not make a new supplier category
+export const categoryPairKey = (category: unknown, subcategory: unknown) =>
+  `${clean(category).toLowerCase()}\u0000${clean(subcategory).toLowerCase()}`;
+
+export const formatTaxonomyPath = (node: TaxonomyNode) => node.path.join(PATH_SEPARATOR);
+
+// Reads a taxonomy CSV: either a path column ("Home > Lighting > Table lamps", "/" also works) or
+// one column per level, with an optional id column. Parent categories are added when only their
+// children are listed, so any level can be chosen.
+export const parseTaxonomy = (rows: DataRow[]): TaxonomyNode[] => {
+  if (rows.length === 0) throw new Error('The taxonomy file is empty');
+  const headers = Object.keys(rows[0]);
+  const idColumn = headers.find(header => /^(id|category id|node id)$/i.test(header.trim()));
+  const levelColumns = headers.filter(header => header !== idColumn);
+  const pathColumn = levelColumns.length === 1
+    ? levelColumns[0]
+    : levelColumns.find(header => /^(path|category path|taxonomy)$/i.test(header.trim()));
+
+  const nodes = new Map<string, TaxonomyNode>();
+  const addNode = (path: string[], id?: string) => {
+    path.forEach((_, depth) => {
+      const ancestor = path.slice(0, depth + 1);
+      const key = ancestor.join(PATH_SEPARATOR);
+      if (depth === path.length - 1) {
+        nodes.set(key, { id: id || key, path: ancestor });
+      } else if (!nodes.has(key)) {
+        nodes.set(key, { id: key, path: ancestor });
+      }
+    });
+  };
+
+  rows.forEach(row => {
+    const path = pathColumn
+      ? clean(row[pathColumn]).split(/\s*(?:>|\/)\s*/).filter(Boolean)
+      : levelColumns.map(column => clean(row[column])).filter(Boolean);
+    if (path.length > 0) addNode(path, idColumn ? clean(row[idColumn]) : undefined);
+  });
+
+  if (nodes.size === 0) throw new Error('No categories found in the taxonomy file');
+  return Array.from(nodes.values()).sort((a, b) => formatTaxonomyPath(a).localeCompare(formatTaxonomyPath(b)));
+};
+
+// The distinct supplier pairs in the merged rows, most common first
+export const collectCategoryPairs = (rows: DataRow[]): CategoryPair[] => {
+  const pairs = new Map<string, CategoryPair>();
+  rows.forEach(row => {
+    const category = clean(row[SUPPLIER_CATEGORY_COLUMN]);
+    const subcategory = clean(row[SUPPLIER_SUBCATEGORY_COLUMN]);
+    if (!category && !subcategory) return;
+    const key = categoryPairKey(category, subcategory);
+    const pair = pairs.get(key);
+    if (pair) {
+      pair.count++;
+    } else {
+      pairs.set(key, { category, subcategory, count: 1 });
+    }
+  });
+  return Array.from(pairs.values()).sort((a, b) =>
+    b.count - a.count || a.category.localeCompare(b.category) || a.subcategory.localeCompare(b.subcategory)
+  );
+};
+
+export const createCategoryMapper = (settings: CategorySettings) => {
+  const nodes = new Map(settings.taxonomy.map(node => [node.id, node]));
+  // The node for a merged row; null when its pair is not mapped or the node left the taxonomy
+  return (row: DataRow): TaxonomyNode | null => {
+    const id = settings.assignments[categoryPairKey(row[SUPPLIER_CATEGORY_COLUMN], row[SUPPLIER_SUBCATEGORY_COLUMN])];
+    return (id && nodes.get(id)) || null;
+  };
+};
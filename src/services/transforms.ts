@@ -0,0 +1,433 @@
+import { DataRow } from '../types';
+import { isEmptyValue } from './mapping';
+import { compactImages } from './images';
+
+export type DataTransformType = 'replace' | 'compute' | 'compactImages';
+
+interface BaseDataTransform {
+  id: string;
+  type: DataTransformType;
+  enabled: boolean;
+}
+
+export interface ReplaceTransform extends BaseDataTransform {
+  type: 'replace';
+  columns: string[];
+  pattern: string;
+  replacement: string;
+  // 'i' for case-insensitive; every match is always replaced
+  flags: string;
+}
+
+export interface ComputeTransform extends BaseDataTransform {
+  type: 'compute';
+  // An existing column is overwritten, a new one is added
+  column: string;
+  expression: string;
+}
+
+// Moves each product's images up to image1 so the numbering has no gaps
+export interface CompactImagesTransform extends BaseDataTransform {
+  type: 'compactImages';
+  dropDuplicates: boolean;
+}
+
+export type DataTransform = ReplaceTransform | ComputeTransform | CompactImagesTransform;
+
+export const DATA_TRANSFORM_LABELS: Record<DataTransformType, string> = {
+  replace: 'Find and replace',
+  compute: 'Computed column',
+  compactImages: 'Compact images',
+};
+
+export const createDataTransform = (type: DataTransformType): DataTransform => {
+  const id = crypto.randomUUID();
+  switch (type) {
+    case 'replace':
+      return { id, type, enabled: true, columns: [], pattern: '', replacement: '', flags: 'i' };
+    case 'compute':
+      return { id, type, enabled: true, column: '', expression: '' };
+    case 'compactImages':
+      return { id, type, enabled: true, dropDuplicates: true };
+  }
+};
+
+// Expression language: column names (bare, or in [brackets] when they contain spaces), "text" or
+// 'text' literals, numbers, + - * / and parentheses, and the functions below. + adds two numbers,
+// also numbers read from a CSV such as "12,5", and joins anything else as text; - * / always work
+// on numbers.
+
+type Value = string | number;
+
+type Node =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'column'; name: string }
+  | { kind: 'call'; name: string; args: Node[] }
+  | { kind: 'negate'; operand: Node }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: Node; right: Node };
+
+const toText = (value: unknown): string => (value === undefined || value === null ? '' : String(value));
+
+// The first number in the text, so "12,5 cm" reads as 12.5; empty when there is none
+const toNumber = (value: unknown): number | '' => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : '';
+  const match = toText(value).match(/-?\d+(?:[.,]\d+)?/);
+  return match ? Number(match[0].replace(',', '.')) : '';
+};
+
+// A number, or text that holds nothing but one, with a decimal point or comma
+const isNumeric = (value: Value): boolean =>
+  typeof value === 'number' ? Number.isFinite(value) : /^\s*-?\d+(?:[.,]\d+)?\s*$/.test(value);
+
+const titleCase = (text: string) =>
+  text.toLowerCase().replace(/(^|[\s\-/(])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+  call: (args: Value[]) => Value;
+}
+
+export const EXPRESSION_FUNCTIONS: Record<string, FunctionSpec & { usage: string }> = {
+  upper: { minArgs: 1, maxArgs: 1, usage: 'upper(text)', call: ([text]) => toText(text).toUpperCase() },
+  lower: { minArgs: 1, maxArgs: 1, usage: 'lower(text)', call: ([text]) => toText(text).toLowerCase() },
+  title: { minArgs: 1, maxArgs: 1, usage: 'title(text)', call: ([text]) => titleCase(toText(text)) },
+  trim: { minArgs: 1, maxArgs: 1, usage: 'trim(text)', call: ([text]) => toText(text).trim().replace(/\s+/g, ' ') },
+  number: { minArgs: 1, maxArgs: 1, usage: 'number(text)', call: ([text]) => toNumber(text) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    usage: 'round(number, digits)',
+    // The digits can come from a column, so they are kept to the whole numbers toFixed accepts
+    call: ([value, digits = 0]) => {
+      const number = toNumber(value);
+      const places = Math.min(100, Math.max(0, Math.trunc(toNumber(digits) || 0)));
+      return number === '' ? '' : Number(number.toFixed(places));
+    },
+  },
+  // Joins the non-empty values, so a missing Material leaves no double space
+  join: {
+    minArgs: 2,
+    maxArgs: Infinity,
+    usage: 'join(separator, value, ...)',
+    call: ([separator, ...values]) => values.map(toText).filter(text => text.trim() !== '').join(toText(separator)),
+  },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    usage: 'coalesce(value, ...)',
+    call: (values) => values.find(value => !isEmptyValue(value)) ?? '',
+  },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    usage: 'replace(text, pattern, replacement)',
+    // A pattern read from a column can be an invalid regular expression; the text is then left as it is
+    call: ([text, pattern, replacement]) => {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(toText(pattern), 'gi');
+      } catch {
+        return toText(text);
+      }
+      return toText(text).replace(regex, toText(replacement));
+    },
+  },
+};
+
+// Patterns written into the expression are checked up front, so a typo is reported instead of
+// leaving every value unchanged
+const checkPatterns = (node: Node) => {
+  if (node.kind === 'call') {
+    const pattern = node.args[1];
+    if (node.name === 'replace' && pattern?.kind === 'literal') new RegExp(toText(pattern.value), 'gi');
+    node.args.forEach(checkPatterns);
+  } else if (node.kind === 'negate') {
+    checkPatterns(node.operand);
+  } else if (node.kind === 'binary') {
+    checkPatterns(node.left);
+    checkPatterns(node.right);
+  }
+};
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'column' | 'symbol';
+  value: string;
+  position: number;
+}
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < expression.length) {
+    const char = expression[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (/\d/.test(char)) {
+      const match = expression.slice(position).match(/^\d+(\.\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0], position });
+      position += match[0].length;
+    } else if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, position + 1);
+      if (end < 0) throw new Error(`Unclosed text starting at position ${position + 1}`);
+      tokens.push({ type: 'string', value: expression.slice(position + 1, end), position });
+      position = end + 1;
+    } else if (char === '[') {
+      const end = expression.indexOf(']', position + 1);
+      if (end < 0) throw new Error(`Unclosed [ at position ${position + 1}`);
+      tokens.push({ type: 'column', value: expression.slice(position + 1, end), position });
+      position = end + 1;
+    } else if (/[\p{L}_]/u.test(char)) {
+      const match = expression.slice(position).match(/^[\p{L}_][\p{L}\p{N}_]*/u)!;
+      tokens.push({ type: 'name', value: match[0], position });
+      position += match[0].length;
+    } else if ('+-*/(),'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, position });
+      position++;
+    } else {
+      throw new Error(`Unexpected "${char}" at position ${position + 1}`);
+    }
+  }
+  return tokens;
+};
+
+export const parseExpression = (expression: string): Node => {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) =>
+    token ? `"${token.value}" at position ${token.position + 1}` : 'the end of the expression';
+  const expectSymbol = (symbol: string) => {
+    const token = tokens[index];
+    if (token?.type !== 'symbol' || token.value !== symbol) {
+      throw new Error(`Expected "${symbol}" but found ${describe(token)}`);
+    }
+    index++;
+  };
+
+  const parseSum = (): Node => {
+    let node = parseProduct();
+    while (peek()?.type === 'symbol' && (peek().value === '+' || peek().value === '-')) {
+      const operator = tokens[index++].value as '+' | '-';
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): Node => {
+    let node = parseUnary();
+    while (peek()?.type === 'symbol' && (peek().value === '*' || peek().value === '/')) {
+      const operator = tokens[index++].value as '*' | '/';
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (peek()?.type === 'symbol' && peek().value === '-') {
+      index++;
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    if (!token) throw new Error('The expression ends too early');
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'column':
+        return { kind: 'column', name: token.value };
+      case 'name': {
+        if (!(peek()?.type === 'symbol' && peek().value === '(')) return { kind: 'column', name: token.value };
+        const spec = EXPRESSION_FUNCTIONS[token.value.toLowerCase()];
+        if (!spec) throw new Error(`Unknown function "${token.value}"`);
+        index++;
+        const args: Node[] = [];
+        if (!(peek()?.type === 'symbol' && peek().value === ')')) {
+          args.push(parseSum());
+          while (peek()?.type === 'symbol' && peek().value === ',') {
+            index++;
+            args.push(parseSum());
+          }
+        }
+        expectSymbol(')');
+        if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+          const count =
+            spec.minArgs === spec.maxArgs ? spec.minArgs
+            : spec.maxArgs === Infinity ? `${spec.minArgs} or more`
+            : `${spec.minArgs} to ${spec.maxArgs}`;
+          throw new Error(`${spec.usage} takes ${count} argument(s)`);
+        }
+        return { kind: 'call', name: token.value.toLowerCase(), args };
+      }
+      case 'symbol':
+        if (token.value === '(') {
+          const node = parseSum();
+          expectSymbol(')');
+          return node;
+        }
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  if (tokens.length === 0) throw new Error('The expression is empty');
+  const node = parseSum();
+  if (index < tokens.length) throw new Error(`Unexpected ${describe(tokens[index])}`);
+  return node;
+};
+
+// Column names the expression reads, to warn about ones the data does not have
+export const getExpressionColumns = (node: Node): string[] => {
+  switch (node.kind) {
+    case 'literal':
+      return [];
+    case 'column':
+      return [node.name];
+    case 'call':
+      return node.args.flatMap(getExpressionColumns);
+    case 'negate':
+      return getExpressionColumns(node.operand);
+    case 'binary':
+      return [...getExpressionColumns(node.left), ...getExpressionColumns(node.right)];
+  }
+};
+
+const evaluate = (node: Node, row: DataRow): Value => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'column': {
+      const value = row[node.name];
+      return typeof value === 'number' ? value : toText(value);
+    }
+    case 'call':
+      return EXPRESSION_FUNCTIONS[node.name].call(node.args.map(arg => evaluate(arg, row)));
+    case 'negate': {
+      const number = toNumber(evaluate(node.operand, row));
+      return number === '' ? '' : -number;
+    }
+    case 'binary': {
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      if (node.operator === '+' && (!isNumeric(left) || !isNumeric(right))) {
+        return toText(left) + toText(right);
+      }
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === '' || b === '') return '';
+      const result =
+        node.operator === '+' ? a + b
+        : node.operator === '-' ? a - b
+        : node.operator === '*' ? a * b
+        : a / b;
+      return Number.isFinite(result) ? result : '';
+    }
+  }
+};
+
+// Returns why the transform cannot run, or null when it is usable
+export const getTransformError = (transform: DataTransform): string | null => {
+  try {
+    if (transform.type === 'replace') {
+      if (transform.columns.length === 0) return 'Choose at least one column';
+      if (!transform.pattern) return 'Pattern is empty';
+      new RegExp(transform.pattern, transform.flags);
+    } else if (transform.type === 'compute') {
+      if (!transform.column.trim()) return 'Target column is empty';
+      checkPatterns(parseExpression(transform.expression));
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid transform';
+  }
+};
+
+const compileTransform = (transform: DataTransform): ((row: DataRow) => DataRow) | null => {
+  if (!transform.enabled || getTransformError(transform)) return null;
+
+  if (transform.type === 'replace') {
+    const flags = transform.flags.includes('g') ? transform.flags : `${transform.flags}g`;
+    const regex = new RegExp(transform.pattern, flags);
+    return (row) => {
+      let result = row;
+      transform.columns.forEach(column => {
+        const value = row[column];
+        if (typeof value !== 'string') return;
+        const replaced = value.replace(regex, transform.replacement);
+        if (replaced !== value) {
+          result = result === row ? { ...row } : result;
+          result[column] = replaced;
+        }
+      });
+      return result;
+    };
+  }
+
+  if (transform.type === 'compactImages') {
+    return (row) => {
+      const changes = compactImages(row, transform.dropDuplicates);
+      return Object.keys(changes).length === 0 ? row : { ...row, ...changes };
+    };
+  }
+
+  const expression = parseExpression(transform.expression);
+  const column = transform.column.trim();
+  return (row) => {
+    let value: Value;
+    try {
+      value = evaluate(expression, row);
+    } catch (error) {
+      // One row the expression cannot handle keeps its value rather than failing the whole merge
+      console.error(`Error computing ${column}:`, error);
+      return row;
+    }
+    const text = typeof value === 'number' ? String(value) : value;
+    return toText(row[column]) === text ? row : { ...row, [column]: text };
+  };
+};
+
+// Runs the enabled, valid transforms in order. Unchanged rows are shared with the input.
+export const applyDataTransforms = (rows: DataRow[], transforms: DataTransform[]): DataRow[] => {
+  const steps = transforms
+    .map(compileTransform)
+    .filter((step): step is (row: DataRow) => DataRow => step !== null);
+  if (steps.length === 0) return rows;
+  return rows.map(row => steps.reduce((current, step) => step(current), row));
+};
+
+export interface TransformPreviewRow {
+  sku: string;
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface TransformPreview {
+  affectedRows: number;
+  samples: TransformPreviewRow[];
+}
+
+// The cells one transform would change, with a sample for the panel
+export const previewTransform = (rows: DataRow[], transform: DataTransform, limit = 20): TransformPreview => {
+  const step = compileTransform({ ...transform, enabled: true });
+  if (!step) return { affectedRows: 0, samples: [] };
+
+  let affectedRows = 0;
+  const samples: TransformPreviewRow[] = [];
+  rows.forEach(row => {
+    const result = step(row);
+    if (result === row) return;
+    affectedRows++;
+    Object.keys(result).forEach(column => {
+      if (samples.length < limit && toText(result[column]) !== toText(row[column])) {
+        samples.push({ sku: toText(row.SKU), column, before: row[column], after: result[column] });
+      }
+    });
+  });
+  return { affectedRows, samples };
+};
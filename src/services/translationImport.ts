@@ -0,0 +1,265 @@
+import { DataRow } from '../types';
+import { TRANSLATABLE_COLUMNS, TRANSLATION_LANGUAGES, TranslationLanguage } from './translations';
+
+// Where the language of an uploaded file came from; 'files' when the file alone fits several and
+// the other files of the upload settled it
+export type LanguageSource = 'header' | 'text' | 'files';
+
+export interface TranslationFileDetection {
+  // File headers holding the translation, the SKU and, when present, the exported row index
+  header: string;
+  skuHeader: string;
+  rowIndexHeader?: string;
+  // Merged column the translations replace
+  column: string;
+  // Languages the translation column fits; exactly one once the file shows its language
+  languages: TranslationLanguage[];
+  languageSource: LanguageSource | null;
+}
+
+// One confirmed upload: every file agrees on the language and the column
+export interface TranslationImport {
+  language: TranslationLanguage;
+  languageSource: LanguageSource;
+  column: string;
+  files: { name: string; detection: TranslationFileDetection; rowCount: number }[];
+  // Standardized to row_index, SKU and the column, one row per SKU
+  rows: DataRow[];
+  // Rows without a SKU
+  skipped: number;
+}
+
+// Letters and short words that mark each language in running text
+const LANGUAGE_MARKERS: Record<TranslationLanguage, { letters: string; words: string[] }> = {
+  lt: {
+    letters: 'ąčęėįšųūž',
+    words: ['ir', 'su', 'yra', 'arba', 'bei', 'iš', 'kad', 'į', 'nuo', 'už', 'kaip', 'dėl', 'tai', 'ar', 'jūsų'],
+  },
+  sv: {
+    letters: 'äöå',
+    words: ['och', 'är', 'för', 'med', 'som', 'av', 'till', 'ett', 'inte', 'från', 'också', 'eller', 'på', 'din', 'mycket'],
+  },
+  da: {
+    letters: 'æøå',
+    words: ['og', 'er', 'af', 'til', 'med', 'som', 'et', 'ikke', 'fra', 'også', 'eller', 'på', 'meget', 'efter', 'nogle'],
+  },
+  fi: {
+    letters: 'äö',
+    words: ['ja', 'on', 'tai', 'sekä', 'myös', 'kanssa', 'joka', 'ei', 'tämä', 'voi', 'ovat', 'kuin', 'jossa', 'sinun'],
+  },
+  no: {
+    letters: 'æøå',
+    words: ['og', 'er', 'av', 'til', 'med', 'som', 'et', 'ikke', 'fra', 'også', 'eller', 'på', 'mye', 'etter', 'noen'],
+  },
+};
+
+// Cells read for the text check; enough to decide without scanning a whole description file
+const SAMPLE_SIZE = 200;
+
+// The winner needs this many marker hits and twice the hits of the runner-up
+const MIN_EVIDENCE = 3;
+
+const languageLabel = (code: TranslationLanguage) =>
+  TRANSLATION_LANGUAGES.find(language => language.code === code)?.label ?? code;
+
+const listLanguages = (codes: TranslationLanguage[]) => codes.map(languageLabel).join(', ');
+
+// Counts the markers of each candidate in the cells. Markers every candidate shares ("og" for
+// Danish and Norwegian) say nothing about which one it is and are left out.
+const scoreLanguages = (texts: string[], candidates: TranslationLanguage[]) => {
+  const shared = (isMarker: (code: TranslationLanguage) => boolean) => candidates.every(isMarker);
+  const scores = new Map<TranslationLanguage, number>(candidates.map(code => [code, 0]));
+
+  texts.forEach(text => {
+    (text.toLowerCase().match(/\p{L}+/gu) || []).forEach(word => {
+      candidates.forEach(code => {
+        const { letters, words } = LANGUAGE_MARKERS[code];
+        if (words.includes(word) && !shared(other => LANGUAGE_MARKERS[other].words.includes(word))) {
+          scores.set(code, scores.get(code)! + 2);
+        }
+        Array.from(new Set(word)).forEach(letter => {
+          if (letters.includes(letter) && !shared(other => LANGUAGE_MARKERS[other].letters.includes(letter))) {
+            scores.set(code, scores.get(code)! + 1);
+          }
+        });
+      });
+    });
+  });
+  return scores;
+};
+
+// The clear winner among the candidates, or null when the text does not tell them apart
+const pickLanguage = (texts: string[], candidates: TranslationLanguage[]): TranslationLanguage | null => {
+  if (candidates.length === 1) return candidates[0];
+  const [best, second] = Array.from(scoreLanguages(texts, candidates)).sort((a, b) => b[1] - a[1]);
+  return best[1] >= MIN_EVIDENCE && best[1] >= 2 * second[1] ? best[0] : null;
+};
+
+const ALL_LANGUAGES = TRANSLATION_LANGUAGES.map(({ code }) => code);
+
+// Languages whose header for a translatable column is this file header
+const matchHeader = (header: string) => {
+  const name = header.trim().toLowerCase();
+  const matches: { column: string; languages: TranslationLanguage[]; byAlias: boolean }[] = [];
+  TRANSLATABLE_COLUMNS.forEach(column => {
+    const languages = TRANSLATION_LANGUAGES.filter(language => language.headers[column] === name).map(({ code }) => code);
+    if (languages.length > 0) {
+      matches.push({ column, languages, byAlias: true });
+    } else if (column.toLowerCase() === name) {
+      // The exported header was kept, which says nothing about the language
+      matches.push({ column, languages: ALL_LANGUAGES, byAlias: false });
+    }
+  });
+  return matches;
+};
+
+// Whether the text shows the markers of the language at least as much as those of any other; text
+// in a language none of them covers shows none and does not read as any
+const readsAs = (texts: string[], language: TranslationLanguage): boolean => {
+  const scores = scoreLanguages(texts, ALL_LANGUAGES);
+  const score = scores.get(language)!;
+  return score >= MIN_EVIDENCE && Array.from(scores.values()).every(other => other <= score);
+};
+
+// The languages a translation column fits, narrowed by its text. A header and text that disagree
+// are an error: one of them is wrong, and neither is trusted over the other.
+const detectLanguage = (
+  rows: DataRow[],
+  header: string
+): Pick<TranslationFileDetection, 'languages' | 'languageSource'> => {
+  const languages = matchHeader(header)[0]?.languages ?? ALL_LANGUAGES;
+  const texts = rows
+    .map(row => String(row[header] ?? '').trim())
+    .filter(Boolean)
+    .slice(0, SAMPLE_SIZE);
+
+  const fromText = pickLanguage(texts, ALL_LANGUAGES);
+  if (fromText && !languages.includes(fromText)) {
+    throw new Error(`The header "${header}" is ${listLanguages(languages)} but the text reads as ${languageLabel(fromText)}`);
+  }
+  if (languages.length === 1) {
+    if (!readsAs(texts, languages[0])) {
+      throw new Error(`The header "${header}" is ${languageLabel(languages[0])} but the text does not read as it`);
+    }
+    return { languages, languageSource: 'header' };
+  }
+  const language = pickLanguage(texts, languages);
+  return language ? { languages: [language], languageSource: 'text' } : { languages, languageSource: null };
+};
+
+// Finds the translation column of a parsed file and the language it is written in. A file whose
+// column cannot be told apart is refused; its language may stay open for the other files of the
+// upload to settle.
+export const detectTranslationFile = (rows: DataRow[], slotColumn: string): TranslationFileDetection => {
+  if (rows.length === 0) throw new Error('The file has no rows');
+  const headers = Object.keys(rows[0]);
+  const skuHeader = headers.find(header => header.trim().toLowerCase() === 'sku');
+  if (!skuHeader) throw new Error(`No SKU column found among ${headers.join(', ')}`);
+  const rowIndexHeader = headers.find(header => header.trim().toLowerCase() === 'row_index');
+  const dataHeaders = headers.filter(header => header !== skuHeader && header !== rowIndexHeader);
+  if (dataHeaders.length === 0) throw new Error('The file has no column besides the SKU and row index');
+
+  let candidates = dataHeaders.flatMap(header => matchHeader(header).map(match => ({ header, ...match })));
+  // A translated header next to the exported one: the exported column is the source text
+  if (candidates.some(candidate => candidate.byAlias)) candidates = candidates.filter(candidate => candidate.byAlias);
+  // Several recognised columns: the one named after the slot the file was dropped on
+  if (candidates.length > 1) candidates = candidates.filter(candidate => candidate.column === slotColumn);
+
+  if (candidates.length !== 1) {
+    throw new Error(
+      candidates.length === 0
+        ? `None of the columns ${dataHeaders.join(', ')} is a translated column`
+        : `Cannot tell which of the columns ${candidates.map(({ header }) => header).join(', ')} holds the translation`
+    );
+  }
+  const [{ header, column }] = candidates;
+  return { header, column, skuHeader, rowIndexHeader, ...detectLanguage(rows, header) };
+};
+
+const withFileName = <T,>(name: string, run: () => T): T => {
+  try {
+    return run();
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Detects every file of one upload and combines them. Several description files must agree; a file
+// that fits several languages takes the one the other files show. Anything still open is refused
+// rather than guessed.
+export const buildTranslationImport = (
+  files: { name: string; rows: DataRow[] }[],
+  slotColumn: string
+): TranslationImport => {
+  const detected = files.map(file => ({
+    ...file,
+    detection: withFileName(file.name, () => detectTranslationFile(file.rows, slotColumn)),
+  }));
+
+  const [{ name: firstName, detection: first }] = detected;
+  const { column } = first;
+  detected.forEach(({ name, detection }) => {
+    if (detection.column !== column) {
+      throw new Error(`${name} holds ${detection.column} but ${firstName} holds ${column}`);
+    }
+  });
+
+  // Languages every file fits; one file that knows its language settles it for the rest
+  const known = detected.filter(({ detection }) => detection.languages.length === 1);
+  known.forEach(({ name, detection }) => {
+    if (detection.languages[0] !== known[0].detection.languages[0]) {
+      throw new Error(
+        `${name} is ${languageLabel(detection.languages[0])} but ${known[0].name} is ${languageLabel(known[0].detection.languages[0])}`
+      );
+    }
+  });
+  const languages = ALL_LANGUAGES.filter(code => detected.every(({ detection }) => detection.languages.includes(code)));
+  if (languages.length === 0) throw new Error('The files do not share a language');
+  if (languages.length > 1) {
+    throw new Error(`The "${first.header}" column could be ${listLanguages(languages)}; neither its header nor its text tells which`);
+  }
+  const [language] = languages;
+
+  let skipped = 0;
+  const standardized = detected.flatMap(({ rows, detection }) =>
+    rows.flatMap(row => {
+      const sku = row[detection.skuHeader];
+      if (sku === undefined || sku === null || String(sku).trim() === '') {
+        skipped++;
+        return [];
+      }
+      return [{
+        ...(detection.rowIndexHeader ? { row_index: row[detection.rowIndexHeader] } : {}),
+        SKU: sku,
+        [column]: row[detection.header],
+      }];
+    })
+  );
+
+  // Description files are chunks of one export, so put them back in its order
+  if (files.length > 1) {
+    const position = (row: DataRow) => {
+      const index = typeof row.row_index === 'string' ? parseInt(row.row_index, 10) : Number(row.row_index);
+      return isNaN(index) ? Infinity : index;
+    };
+    standardized.sort((a, b) => position(a) - position(b));
+  }
+
+  // The last row wins when a SKU repeats
+  const rowsBySku = new Map<unknown, DataRow>();
+  standardized.forEach(row => rowsBySku.set(row.SKU, row));
+
+  return {
+    language,
+    languageSource: known[0]?.detection.languageSource ?? 'files',
+    column,
+    // A file that fits several languages takes the one of the others
+    files: detected.map(({ name, rows, detection }) => ({
+      name,
+      detection: detection.languages.length > 1 ? { ...detection, languages, languageSource: 'files' } : detection,
+      rowCount: rows.length,
+    })),
+    rows: Array.from(rowsBySku.values()),
+    skipped,
+  };
+};
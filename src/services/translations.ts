@@ -0,0 +1,241 @@
+import { DataRow, ProgressCallback } from '../types';
+import { SkuRule, createSkuNormalizer } from './skuRules';
+
+// Uploaded translations per column: rows with a SKU and the translated value under the column name
+export type TranslatedColumns = Record<string, DataRow[]>;
+
+export type TranslationLanguage = 'lt' | 'sv' | 'da' | 'fi' | 'no';
+
+// Uploaded translations per target language
+export type LanguageTranslations = Partial<Record<TranslationLanguage, TranslatedColumns>>;
+
+// Merged columns sent out for translation
+export const TRANSLATABLE_COLUMNS = ['Subcategory', 'Category', 'Title', 'description'];
+
+// Markets we ship to, with the header translators give each translatable column
+export const TRANSLATION_LANGUAGES: { code: TranslationLanguage; label: string; headers: Record<string, string> }[] = [
+  {
+    code: 'lt',
+    label: 'Lithuanian',
+    headers: { Subcategory: 'subkategorija', Category: 'kategorija', Title: 'pavadinimas', description: 'aprašymas' },
+  },
+  {
+    code: 'sv',
+    label: 'Swedish',
+    headers: { Subcategory: 'underkategori', Category: 'kategori', Title: 'titel', description: 'beskrivning' },
+  },
+  {
+    code: 'da',
+    label: 'Danish',
+    headers: { Subcategory: 'underkategori', Category: 'kategori', Title: 'titel', description: 'beskrivelse' },
+  },
+  {
+    code: 'fi',
+    label: 'Finnish',
+    headers: { Subcategory: 'alaluokka', Category: 'luokka', Title: 'otsikko', description: 'kuvaus' },
+  },
+  {
+    code: 'no',
+    label: 'Norwegian',
+    headers: { Subcategory: 'underkategori', Category: 'kategori', Title: 'tittel', description: 'beskrivelse' },
+  },
+];
+
+// Translations from before languages were tracked are filed under Lithuanian, the first market
+export const LEGACY_TRANSLATION_LANGUAGE: TranslationLanguage = 'lt';
+
+// File id of the table generated for a language
+export const translatedTableId = (language: TranslationLanguage) => `translatedData:${language}`;
+
+// Column holding a language's translation in the combined export, e.g. "Title (LT)"
+export const localeColumn = (column: string, language: TranslationLanguage) => `${column} (${language.toUpperCase()})`;
+
+const hasValue = (value: unknown) => value !== undefined && value !== null && String(value).trim() !== '';
+
+export type CoverageIssue = 'missing' | 'unknown' | 'unchanged' | 'empty' | 'misplaced';
+
+export const COVERAGE_ISSUE_LABELS: Record<CoverageIssue, string> = {
+  missing: 'Missing SKUs',
+  unknown: 'SKUs not in the merged data',
+  unchanged: 'Same as the source text',
+  empty: 'Empty translations',
+  misplaced: 'row_index points to another SKU',
+};
+
+export interface CoverageEntry {
+  sku: unknown;
+  rowIndex?: unknown;
+  // Merged value of the column, and the uploaded one
+  source?: unknown;
+  translation?: unknown;
+  // SKU of the merged row the row_index points to, for misplaced rows
+  skuAtRowIndex?: unknown;
+}
+
+export interface ColumnCoverage {
+  // Merged SKUs with a non-empty translation
+  translated: number;
+  issues: Record<CoverageIssue, CoverageEntry[]>;
+}
+
+export interface TranslationCoverage {
+  // Distinct SKUs in the merged data
+  total: number;
+  // Only columns with uploads
+  columns: Record<string, ColumnCoverage>;
+}
+
+// Checks one language's uploads against the merged rows before they are applied. row_index is
+// the position in the merged data the column was exported from, so a row whose index lands on
+// another SKU means the data was re-merged or the file was reordered since.
+export const checkTranslationCoverage = (
+  rows: DataRow[],
+  translatedColumns: TranslatedColumns,
+  skuRules: SkuRule[]
+): TranslationCoverage => {
+  const normalizeSKU = createSkuNormalizer(skuRules);
+  const merged = new Map<string, DataRow>();
+  rows.forEach(row => {
+    if (!row.SKU) return;
+    const sku = normalizeSKU(row.SKU);
+    if (!merged.has(sku)) merged.set(sku, row);
+  });
+
+  const columns: Record<string, ColumnCoverage> = {};
+  Object.entries(translatedColumns).forEach(([columnName, translatedRows]) => {
+    const coverage: ColumnCoverage = {
+      translated: 0,
+      issues: { missing: [], unknown: [], unchanged: [], empty: [], misplaced: [] },
+    };
+    const seen = new Set<string>();
+
+    translatedRows.forEach(row => {
+      if (!row.SKU) return;
+      const sku = normalizeSKU(row.SKU);
+      const translation = row[columnName];
+      const entry: CoverageEntry = { sku: row.SKU, rowIndex: row.row_index, translation };
+
+      const source = merged.get(sku);
+      if (!source) {
+        coverage.issues.unknown.push(entry);
+        return;
+      }
+      if (hasValue(row.row_index)) {
+        const atIndex = rows[Number(row.row_index)];
+        if (!atIndex || !atIndex.SKU || normalizeSKU(atIndex.SKU) !== sku) {
+          coverage.issues.misplaced.push({ ...entry, skuAtRowIndex: atIndex?.SKU ?? '' });
+        }
+      }
+      seen.add(sku);
+      if (!hasValue(translation)) {
+        coverage.issues.empty.push({ ...entry, source: source[columnName] });
+        return;
+      }
+      coverage.translated++;
+      if (String(translation).trim() === String(source[columnName] ?? '').trim()) {
+        coverage.issues.unchanged.push({ ...entry, source: source[columnName] });
+      }
+    });
+
+    merged.forEach((row, sku) => {
+      if (!seen.has(sku)) coverage.issues.missing.push({ sku: row.SKU, source: row[columnName] });
+    });
+    columns[columnName] = coverage;
+  });
+
+  return { total: merged.size, columns };
+};
+
+export const countCoverageIssues = (coverage: TranslationCoverage) =>
+  Object.values(coverage.columns).reduce(
+    (sum, column) => sum + Object.values(column.issues).reduce((count, entries) => count + entries.length, 0),
+    0
+  );
+
+// One row per issue of a column, for download
+export const coverageToRows = (coverage: ColumnCoverage): DataRow[] =>
+  (Object.keys(COVERAGE_ISSUE_LABELS) as CoverageIssue[]).flatMap(issue =>
+    coverage.issues[issue].map(entry => ({
+      Issue: COVERAGE_ISSUE_LABELS[issue],
+      SKU: entry.sku,
+      row_index: entry.rowIndex ?? '',
+      'SKU at row_index': entry.skuAtRowIndex ?? '',
+      Source: entry.source ?? '',
+      Translation: entry.translation ?? '',
+    }))
+  );
+
+// Replaces each translated column on the rows whose SKU has a translation. Untouched rows are
+// shared with the input rather than copied, so the merged data is left as it was.
+export const applyTranslations = (
+  rows: DataRow[],
+  translatedColumns: TranslatedColumns,
+  skuRules: SkuRule[],
+  onProgress?: ProgressCallback
+): DataRow[] => {
+  // Match on the same normalization rules the merge used
+  const normalizeSKU = createSkuNormalizer(skuRules);
+
+  const translationMaps = new Map<string, Map<string, unknown>>();
+  Object.entries(translatedColumns).forEach(([columnName, translatedRows]) => {
+    const skuMap = new Map<string, unknown>();
+    translatedRows.forEach(row => {
+      if (row.SKU && row[columnName] !== undefined) {
+        skuMap.set(normalizeSKU(row.SKU), row[columnName]);
+      }
+    });
+    translationMaps.set(columnName, skuMap);
+  });
+
+  return rows.map((row, index) => {
+    onProgress?.(index / rows.length);
+    if (!row.SKU) return row;
+
+    const normalizedSku = normalizeSKU(row.SKU);
+    let translated: DataRow | null = null;
+    for (const [columnName, skuMap] of translationMaps) {
+      if (!skuMap.has(normalizedSku)) continue;
+      translated = translated || { ...row };
+      translated[columnName] = skuMap.get(normalizedSku);
+    }
+    return translated || row;
+  });
+};
+
+// The merged rows with each translatable column followed by one column per language that has
+// uploads; SKUs without a translation get an empty cell rather than the source text
+export const combineTranslations = (
+  rows: DataRow[],
+  translations: LanguageTranslations,
+  skuRules: SkuRule[],
+  onProgress?: ProgressCallback
+): DataRow[] => {
+  const normalizeSKU = createSkuNormalizer(skuRules);
+  const languages = TRANSLATION_LANGUAGES.map(language => language.code).filter(code => translations[code]);
+
+  const translationMaps = new Map<string, Map<string, unknown>>();
+  languages.forEach(code => {
+    Object.entries(translations[code]!).forEach(([columnName, translatedRows]) => {
+      const skuMap = new Map<string, unknown>();
+      translatedRows.forEach(row => {
+        if (row.SKU && row[columnName] !== undefined) skuMap.set(normalizeSKU(row.SKU), row[columnName]);
+      });
+      translationMaps.set(localeColumn(columnName, code), skuMap);
+    });
+  });
+
+  return rows.map((row, index) => {
+    onProgress?.(index / rows.length);
+    const normalizedSku = row.SKU ? normalizeSKU(row.SKU) : '';
+    const combined: DataRow = {};
+    Object.entries(row).forEach(([column, value]) => {
+      combined[column] = value;
+      if (!TRANSLATABLE_COLUMNS.includes(column)) return;
+      languages.forEach(code => {
+        const target = localeColumn(column, code);
+        combined[target] = translationMaps.get(target)?.get(normalizedSku) ?? '';
+      });
+    });
+    return combined;
+  });
+};
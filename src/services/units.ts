@@ -0,0 +1,160 @@
+import { DataRow } from '../types';
+
+export type LengthUnit = 'cm' | 'mm';
+export type WeightUnit = 'kg' | 'g';
+
+export interface MeasurementSettings {
+  // Off keeps the measurement columns as the text the files contain
+  enabled: boolean;
+  lengthUnit: LengthUnit;
+  weightUnit: WeightUnit;
+  // Percentage the stated Volume/CBM may differ from the package size before the row is flagged
+  volumeTolerance: number;
+}
+
+export const DEFAULT_MEASUREMENT_SETTINGS: MeasurementSettings = {
+  enabled: true,
+  lengthUnit: 'cm',
+  weightUnit: 'kg',
+  volumeTolerance: 10,
+};
+
+// Merged columns holding measurements; the Product Information file gives them in cm, kg and m³
+export const MEASUREMENT_COLUMNS = {
+  productSize: 'Product size',
+  productLength: 'Product size Length',
+  productWidth: 'Product size Width',
+  productHeight: 'Product size Height',
+  packageLength: 'Package size Length',
+  packageWidth: 'Package size Width',
+  packageHeight: 'Package size Height',
+  netWeight: 'Net weight',
+  grossWeight: 'Gross weight',
+  volume: 'Volume/CBM',
+};
+
+// Added to the merged rows when any row has a measurement problem
+export const MEASUREMENT_NOTES_COLUMN = 'Measurement notes';
+
+type Quantity = 'length' | 'weight' | 'volume';
+
+// Factors to the base unit of each quantity: cm, kg and m³
+const UNIT_FACTORS: Record<Quantity, Record<string, number>> = {
+  length: { mm: 0.1, cm: 1, m: 100 },
+  weight: { g: 0.001, kg: 1 },
+  volume: { cbm: 1, m3: 1, 'm³': 1, l: 0.001 },
+};
+
+const NUMBER = String.raw`-?\d[\d\s'.,]*`;
+const UNIT = String.raw`(?:mm|cm|m³|m3|m|kg|g|cbm|l)`;
+const VALUE_PATTERN = new RegExp(String.raw`^(${NUMBER}?)\s*(${UNIT})?\.?$`, 'i');
+
+// Reads "1,25", "1.25", "1 234,5" and "1,234.5": with both separators the last one is the decimal
+// one, and a separator that repeats ("1.234.567") only groups thousands
+export const parseDecimal = (text: string): number | null => {
+  let digits = text.replace(/[\s']/g, '');
+  if (!/^-?\d[\d.,]*$/.test(digits)) return null;
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    digits = digits.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const groups = digits.split(separator);
+    digits = groups.length > 2 ? groups.join('') : groups.join('.');
+  }
+  const value = Number(digits);
+  return Number.isFinite(value) ? value : null;
+};
+
+// A measurement in the base unit of its quantity; a unit written in the cell wins over the column's unit
+const parseQuantity = (value: unknown, quantity: Quantity): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = String(value).trim().match(VALUE_PATTERN);
+  if (!match || !match[1]) return null;
+  const number = parseDecimal(match[1].trim());
+  if (number === null) return null;
+  if (!match[2]) return number;
+  const factor = UNIT_FACTORS[quantity][match[2].toLowerCase()];
+  return factor === undefined ? null : number * factor;
+};
+
+// "12 x 30 x 4", "12×30×4 cm" or "12*30*4" as lengths in cm
+export const parseDimensions = (value: unknown): number[] | null => {
+  const text = String(value ?? '').trim();
+  const unit = text.match(/\s*(mm|cm|m)\.?$/i);
+  const body = unit ? text.slice(0, unit.index) : text;
+  const parts = body.split(/\s*[x×*]\s*/i);
+  if (parts.length < 2 || parts.length > 3) return null;
+  const lengths = parts.map(part => parseQuantity(unit ? `${part}${unit[1]}` : part, 'length'));
+  return lengths.every((length): length is number => length !== null) ? lengths : null;
+};
+
+// Kept local: mapping.ts imports the defaults from here, so importing back would be circular
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const toLengthUnit = (cm: number, unit: LengthUnit) => round(unit === 'mm' ? cm * 10 : cm, 2);
+const toWeightUnit = (kg: number, unit: WeightUnit) => round(unit === 'g' ? kg * 1000 : kg, 3);
+
+// Turns the measurement columns of a merged row into numbers in the chosen units, splits the
+// product size into its dimensions and fills in or checks the volume. Cells that cannot be
+// read are left as they are and reported.
+export const normalizeMeasurements = (
+  row: DataRow,
+  settings: MeasurementSettings
+): { row: DataRow; notes: string[] } => {
+  if (!settings.enabled) return { row, notes: [] };
+
+  const result: DataRow = { ...row };
+  const notes: string[] = [];
+  const read = (column: string, quantity: Quantity): number | null => {
+    if (isBlank(row[column])) return null;
+    const value = parseQuantity(row[column], quantity);
+    if (value === null) notes.push(`${column}: cannot read "${row[column]}"`);
+    return value;
+  };
+
+  const columns = MEASUREMENT_COLUMNS;
+  const packageSize = [columns.packageLength, columns.packageWidth, columns.packageHeight].map(column => {
+    const cm = read(column, 'length');
+    if (cm !== null) result[column] = toLengthUnit(cm, settings.lengthUnit);
+    return cm;
+  });
+
+  [columns.netWeight, columns.grossWeight].forEach(column => {
+    const kg = read(column, 'weight');
+    if (kg !== null) result[column] = toWeightUnit(kg, settings.weightUnit);
+  });
+
+  const dimensions = isBlank(row[columns.productSize]) ? [] : parseDimensions(row[columns.productSize]);
+  if (!dimensions) notes.push(`${columns.productSize}: cannot split "${row[columns.productSize]}" into dimensions`);
+  const split = Object.fromEntries(
+    [columns.productLength, columns.productWidth, columns.productHeight].map((column, index) => {
+      const cm = dimensions?.[index];
+      return [column, cm === undefined ? '' : toLengthUnit(cm, settings.lengthUnit)];
+    })
+  );
+
+  const stated = read(columns.volume, 'volume');
+  const computed = packageSize.every((cm): cm is number => cm !== null)
+    ? (packageSize[0] * packageSize[1] * packageSize[2]) / 1_000_000
+    : null;
+  if (stated !== null) result[columns.volume] = round(stated, 6);
+  if (computed !== null) {
+    if (isBlank(row[columns.volume])) {
+      result[columns.volume] = round(computed, 6);
+    } else if (stated !== null && Math.abs(stated - computed) > (settings.volumeTolerance / 100) * Math.max(stated, computed)) {
+      notes.push(`${columns.volume}: stated ${round(stated, 6)} but the package size gives ${round(computed, 6)}`);
+    }
+  }
+
+  // Every row gets the split columns, right after the product size when it is there
+  const entries = Object.entries(result);
+  const position = entries.findIndex(([column]) => column === columns.productSize) + 1 || entries.length;
+  entries.splice(position, 0, ...Object.entries(split));
+  return { row: Object.fromEntries(entries), notes };
+};
@@ -0,0 +1,156 @@
+import { DataRow } from '../types';
+import { MergeSource, SourceRole, getHeaders, isEmptyValue } from './mapping';
+import { toRowNumber } from './duplicates';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+  | 'missingColumn'
+  | 'missingRecommendedColumn'
+  | 'emptySku'
+  | 'malformedSku'
+  | 'invalidEan'
+  | 'notNumeric';
+
+export interface ValidationIssue {
+  sourceId: string;
+  source: string;
+  // Spreadsheet row number, or null for file-level issues such as a missing column
+  row: number | null;
+  column: string;
+  value: string;
+  code: IssueCode;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export const ISSUE_CODE_LABELS: Record<IssueCode, string> = {
+  missingColumn: 'Missing required column',
+  missingRecommendedColumn: 'Missing recommended column',
+  emptySku: 'Empty SKU',
+  malformedSku: 'Malformed SKU',
+  invalidEan: 'Invalid EAN',
+  notNumeric: 'Not a number',
+};
+
+// Without these the merge cannot produce anything for the file
+export const REQUIRED_COLUMNS: Record<SourceRole, string[]> = {
+  de: ['SKU'],
+  product: ['SKU'],
+  stock: ['SKU'],
+  marketplace: ['SKU'],
+  other: ['SKU'],
+};
+
+// The default mapping reads these; a missing one leaves output columns empty
+export const RECOMMENDED_COLUMNS: Record<SourceRole, string[]> = {
+  de: ['EAN', 'Price', 'Stock', 'Title'],
+  product: ['Name', 'Brand', 'Category'],
+  stock: ['Stock', 'Price'],
+  marketplace: [],
+  other: [],
+};
+
+export const NUMERIC_COLUMNS = ['Price', 'Stock', 'Net weight/kg', 'Gross weight/kg'];
+
+const SKU_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._\-/ ]*$/;
+// Accepts decimal comma or point, with optional space or point thousands separators
+const NUMBER_PATTERN = /^-?\d{1,3}([ .]?\d{3})*([.,]\d+)?$|^-?\d+([.,]\d+)?$/;
+
+// GTIN-8/12/13/14 check digit: weights 3 and 1 alternate from the right, excluding the check digit
+export const isValidEan = (ean: string): boolean => {
+  if (!/^\d+$/.test(ean) || ![8, 12, 13, 14].includes(ean.length)) return false;
+  const digits = ean.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+export const isNumeric = (value: string): boolean => NUMBER_PATTERN.test(value.trim());
+
+const validateRow = (source: MergeSource, row: DataRow, index: number, headers: string[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const issue = (column: string, value: unknown, code: IssueCode, message: string, severity: IssueSeverity = 'warning') => {
+    issues.push({
+      sourceId: source.id,
+      source: source.name,
+      row: toRowNumber(index, source.rowNumbers),
+      column,
+      value: String(value ?? ''),
+      code,
+      severity,
+      message,
+    });
+  };
+
+  // Blank lines (e.g. a trailing newline in a CSV) are ignored by the merge as well
+  if (Object.values(row).every(isEmptyValue)) return issues;
+
+  if (headers.includes('SKU')) {
+    const sku = String(row.SKU ?? '').trim();
+    if (!sku) {
+      issue('SKU', row.SKU, 'emptySku', 'Row has no SKU and will be skipped');
+    } else if (!SKU_PATTERN.test(sku)) {
+      issue('SKU', row.SKU, 'malformedSku', 'SKU contains unexpected characters');
+    }
+  }
+
+  if (headers.includes('EAN') && !isEmptyValue(row.EAN)) {
+    const ean = String(row.EAN).trim();
+    if (!isValidEan(ean)) {
+      issue('EAN', row.EAN, 'invalidEan', /^\d+$/.test(ean) ? 'EAN check digit or length is wrong' : 'EAN must contain only digits');
+    }
+  }
+
+  NUMERIC_COLUMNS.forEach(column => {
+    if (!headers.includes(column) || isEmptyValue(row[column])) return;
+    if (!isNumeric(String(row[column]))) {
+      issue(column, row[column], 'notNumeric', `${column} is not a number`);
+    }
+  });
+
+  return issues;
+};
+
+export const validateSource = (source: MergeSource): ValidationIssue[] => {
+  const headers = getHeaders(source.rows);
+  const fileIssue = (column: string, code: IssueCode, severity: IssueSeverity, message: string): ValidationIssue => ({
+    sourceId: source.id,
+    source: source.name,
+    row: null,
+    column,
+    value: '',
+    code,
+    severity,
+    message,
+  });
+
+  const issues: ValidationIssue[] = [
+    ...REQUIRED_COLUMNS[source.role]
+      .filter(column => !headers.includes(column))
+      .map(column => fileIssue(column, 'missingColumn', 'error', `Required column "${column}" is missing`)),
+    ...RECOMMENDED_COLUMNS[source.role]
+      .filter(column => !headers.includes(column))
+      .map(column => fileIssue(column, 'missingRecommendedColumn', 'warning', `Column "${column}" is missing`)),
+  ];
+
+  source.rows.forEach((row, index) => {
+    issues.push(...validateRow(source, row, index, headers));
+  });
+  return issues;
+};
+
+export const validateSources = (sources: MergeSource[]): ValidationIssue[] => sources.flatMap(validateSource);
+
+export const issuesToRows = (issues: ValidationIssue[]): DataRow[] =>
+  issues.map(issue => ({
+    Source: issue.source,
+    Row: issue.row ?? '',
+    Column: issue.column,
+    Value: issue.value,
+    Severity: issue.severity,
+    Issue: ISSUE_CODE_LABELS[issue.code],
+    Message: issue.message,
+  }));
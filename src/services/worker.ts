@@ -0,0 +1,90 @@
+import { Task, TaskResult } from './tasks';
+
+export interface WorkerRequest {
+  id: number;
+  task: Task;
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; percent: number }
+  | { id: number; type: 'done'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export interface RunningTask<T> {
+  promise: Promise<T>;
+  // Stops the work immediately; the promise rejects with a TaskCancelledError
+  cancel: () => void;
+}
+
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+interface PendingTask {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress: (percent: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingTask>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/data.worker.ts', import.meta.url), { type: 'module' });
+  worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const task = pending.get(message.id);
+    if (!task) return;
+
+    if (message.type === 'progress') {
+      task.onProgress(message.percent);
+      return;
+    }
+    pending.delete(message.id);
+    if (message.type === 'done') {
+      task.resolve(message.result);
+    } else {
+      task.reject(new Error(message.message));
+    }
+  });
+  worker.addEventListener('error', (event) => {
+    console.error('Data worker failed:', event);
+    pending.forEach(task => task.reject(new Error(event.message || 'The data worker failed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+};
+
+// Synchronous work cannot be interrupted from outside, so cancelling terminates the worker;
+// the next task starts a fresh one
+const terminateWorker = () => {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(task => task.reject(new TaskCancelledError()));
+  pending.clear();
+};
+
+export const runInWorker = <T extends Task>(
+  task: T,
+  onProgress: (percent: number) => void = () => {}
+): RunningTask<TaskResult<T>> => {
+  const id = nextId++;
+  const promise = new Promise<TaskResult<T>>((resolve, reject) => {
+    pending.set(id, { resolve: result => resolve(result as TaskResult<T>), reject, onProgress });
+    getWorker().postMessage({ id, task } satisfies WorkerRequest);
+  });
+  return {
+    promise,
+    cancel: () => {
+      if (pending.has(id)) terminateWorker();
+    },
+  };
+};
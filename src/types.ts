@@ -0,0 +1,4 @@
+export type DataRow = Record<string, unknown>;
+
+// Reports how much of a long-running job is done, from 0 to 1
+export type ProgressCallback = (fraction: number) => void;
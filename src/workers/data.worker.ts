@@ -0,0 +1,24 @@
+import { Task, runTask } from '../services/tasks';
+import { WorkerRequest, WorkerResponse } from '../services/worker';
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const { id, task } = event.data;
+  // Progress callbacks fire per row; only whole-percent changes are worth a message
+  let lastPercent = -1;
+  const onProgress = (fraction: number) => {
+    const percent = Math.min(100, Math.floor(fraction * 100));
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    post({ id, type: 'progress', percent });
+  };
+
+  try {
+    const result = await runTask(task as Task, onProgress);
+    post({ id, type: 'done', result });
+  } catch (error) {
+    console.error(`Error running ${task.type} in the data worker:`, error);
+    post({ id, type: 'error', message: error instanceof Error ? error.message : `Failed to run ${task.type}` });
+  }
+});